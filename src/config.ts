@@ -1,15 +1,39 @@
 import { Schema } from 'koishi'
 
+export type AchievementMetric = 'trips' | 'countries' | 'continents' | 'distanceKm' | 'nightOwlNights' | 'earlyRiserStreak' | 'souvenirs'
+
+/**
+ * 声明式成就规则：统计指标达到阈值即解锁
+ */
+export interface AchievementRule {
+  id: string
+  name: string
+  description: string
+  icon: string
+  metric: AchievementMetric
+  threshold: number
+}
+
+export const DEFAULT_TRAVEL_MESSAGE_TEMPLATE = '去了 {landmark}，{country}！📸'
+
 export interface Config {
   /** @deprecated 已废弃，仅用于兼容旧配置，不再生效 */
   sunriseApi?: string
   defaultLat: number
   defaultLng: number
+  defaultTimezone: string
+  sunriseApiCrossCheck: boolean
   abnormalThreshold: number
   outputMode: 'text' | 'image'
   useStorageService: boolean
   storageCacheHours: number
   travelMessageTemplate: string
+  travelMessageTemplates: string[]
+  // Rate limits
+  travelCooldownSeconds: number
+  travelUserDailyLimit: number
+  travelGuildHourlyLimit: number
+  rateLimitAdminBypass: boolean
   aigcEnabled: boolean
   aigcChannel: string
   aigcPrompt: string
@@ -21,6 +45,24 @@ export interface Config {
   llmLocationModel: string
   llmLocationCustomContext: string
   llmFailureCooldownMs: number
+  // LLM location pool
+  llmPoolEnabled: boolean
+  llmPoolSize: number
+  llmPoolRefillCron: string
+  // Location providers
+  locationProviders: string[]
+  locationFilePath: string
+  // Destination de-duplication
+  travelHistoryDays: number
+  newCountryWeight: number
+  // Route mode
+  routeMode: boolean
+  routeMaxDistanceKm: number
+  // Souvenirs
+  souvenirEnabled: boolean
+  // Achievements
+  achievementEnabled: boolean
+  achievementRules: AchievementRule[]
   // Image Search
   imageSearchPrompt: string
   // Unsplash API
@@ -41,6 +83,7 @@ export interface Config {
   // Monthly summary
   monthlySummaryEnabled: boolean
   monthlySummaryScope: 'global' | 'guild'
+  monthlySummaryPersonalCards: boolean
   // Auto wake-up detection (experimental)
   experimentalAutoDetect: boolean
   experimentalAutoDetectScope: 'guild' | 'all'
@@ -65,7 +108,10 @@ const llmLocationEnabledSchema = Schema.object({
   llmLocationModel: Schema.dynamic('model').description('用于生成地点的模型（推荐使用快速模型如 gemini-flash）'),
   llmLocationCustomContext: Schema.string().role('textarea').default('').description('自定义生成上下文（可留空）'),
   llmFailureCooldownMs: Schema.number().default(300000).description('LLM 调用失败冷却时间（毫秒）'),
-  imageSearchPrompt: Schema.string().default('{landmark} {country} landscape').description('搜图关键词模板（可用变量：{landmark} {country} {city}）'),
+  llmPoolEnabled: Schema.boolean().default(false).description('后台预生成地点池（按时区分桶，pig 命令优先从池中取地点，无需等待 LLM）'),
+  llmPoolSize: Schema.number().min(1).max(10).default(3).description('每个时区桶预生成的地点数量'),
+  llmPoolRefillCron: Schema.string().default('*/30 * * * *').description('地点池定时补充的 cron 表达式'),
+  imageSearchPrompt: Schema.string().default('{landmark} {country} landscape').description('搜图关键词模板（可用地点变量，如 {landmark} {country} {city}）'),
   unsplashAccessKey: Schema.string().role('secret').default('').description('Unsplash API Access Key（可选）'),
   pexelsApiKey: Schema.string().role('secret').default('').description('Pexels API Key（可选）'),
 })
@@ -77,7 +123,7 @@ const aiImageDisabledSchema = Schema.object({
 const aiImageEnabledSchema = Schema.object({
   aigcEnabled: Schema.const(true).description('开启：使用 AI 生成旅行插画（需要 media-luna）'),
   aigcChannel: Schema.string().default('').description('media-luna 渠道名称'),
-  aigcPrompt: Schema.string().role('textarea').default('一个可爱的卡通小猪正在 {country} 的 {landmark} 前面自拍，阳光明媚，旅游照片风格').description('AI 生图提示词模板'),
+  aigcPrompt: Schema.string().role('textarea').default('一个可爱的卡通小猪正在 {country} 的 {landmark} 前面自拍，阳光明媚，旅游照片风格').description('AI 生图提示词模板（与旅行消息模板语法相同，地名为英文）'),
 })
 
 const worldMapConfigSchema = Schema.union([
@@ -134,14 +180,61 @@ const deprecatedCompatSchema = Schema.object({
 export const Config = Schema.intersect([
   Schema.object({
     outputMode: Schema.union(['text', 'image']).default('image').description('输出模式：text 纯文本，image 生成精美卡片'),
-    travelMessageTemplate: Schema.string().default('去了 {landmark}，{country}！📸').description('旅行消息模板（可用变量：{landmark} 地标名, {country} 国家名）'),
+    travelMessageTemplate: Schema.string().default(DEFAULT_TRAVEL_MESSAGE_TEMPLATE).description('旅行消息模板（可用变量见文档，如 {landmark} {country} {city} {username} {localTime} {tripNumber} {distanceKm}，条件段 {#newCountry}首次到访！{/newCountry}）'),
+    travelMessageTemplates: Schema.array(Schema.string()).default([]).description('随机旅行消息模板（非空时每次旅行随机选择一条，代替上面的单条模板）'),
   }).description('基础设置'),
 
+  Schema.object({
+    travelCooldownSeconds: Schema.number().min(0).default(0).description('同一用户两次 pig 之间的冷却时间（秒，0 为不限制）'),
+    travelUserDailyLimit: Schema.number().min(0).default(0).description('每位用户每天最多发起的 pig 次数（含 pig @某人，0 为不限制）'),
+    travelGuildHourlyLimit: Schema.number().min(0).default(0).description('每个群每小时最多的 pig 次数（0 为不限制）'),
+    rateLimitAdminBypass: Schema.boolean().default(true).description('管理员不受频率限制'),
+  }).description('频率限制 ⏱️'),
+
   Schema.union([
     llmLocationDisabledSchema,
     llmLocationEnabledSchema,
   ]).description('地点生成 🌍'),
 
+  Schema.object({
+    locationProviders: Schema.array(Schema.string()).default(['llm', 'static']).description('地点提供者回退顺序（内置：llm、file、static，也可填写其他插件注册的提供者名称）'),
+    locationFilePath: Schema.string().default('').description('file 提供者读取的 JSON 地点文件路径（相对于 Koishi 根目录）'),
+  }).description('地点来源 🧭'),
+
+  Schema.object({
+    travelHistoryDays: Schema.number().min(0).default(7).description('目的地去重窗口（天）：窗口内去过的地标和国家不会再次抽中'),
+    newCountryWeight: Schema.number().min(1).default(3).description('从未去过的国家的抽取权重倍数'),
+  }).description('目的地去重 🔁'),
+
+  Schema.object({
+    routeMode: Schema.boolean().default(false).description('路线模式：下一站从上一次旅行的目的地附近选择，连续的旅行连成一条路线'),
+    routeMaxDistanceKm: Schema.number().min(100).default(1500).description('路线模式下一站与上一站的最大距离（公里），附近没有地点时自动放宽'),
+  }).description('路线模式 🛤️'),
+
+  Schema.object({
+    souvenirEnabled: Schema.boolean().default(true).description('每次旅行掉落一只纪念品小猪（普通 / 稀有 / 传说），可用 pig.bag 查看收藏'),
+  }).description('纪念品 🎁'),
+
+  Schema.object({
+    achievementEnabled: Schema.boolean().default(true).description('启用成就徽章：旅行与熬夜统计更新后检查成就，解锁时在群内播报'),
+    achievementRules: Schema.array(Schema.object({
+      id: Schema.string().required().description('成就 ID（与内置成就同名时覆盖内置成就）'),
+      name: Schema.string().required().description('成就名称'),
+      description: Schema.string().default('').description('成就说明'),
+      icon: Schema.string().default('🏅').description('图标（emoji）'),
+      metric: Schema.union([
+        Schema.const('trips').description('旅行次数'),
+        Schema.const('countries').description('去过的国家数'),
+        Schema.const('continents').description('去过的大洲数'),
+        Schema.const('distanceKm').description('累计飞行距离（公里）'),
+        Schema.const('nightOwlNights').description('熬夜天数'),
+        Schema.const('earlyRiserStreak').description('连续早起天数'),
+        Schema.const('souvenirs').description('收集的纪念品种类数'),
+      ]).default('trips').description('统计指标'),
+      threshold: Schema.number().min(1).default(1).description('达到该数值即解锁'),
+    })).default([]).description('自定义成就规则'),
+  }).description('成就徽章 🏅'),
+
   Schema.object({
     backgroundFetchMode: Schema.union([
       Schema.const('auto').description('自动：尽量内联远程图片，遇到易超时域名则直接使用 URL'),
@@ -168,6 +261,8 @@ export const Config = Schema.intersect([
     Schema.object({
       defaultLat: Schema.number().default(30).description('默认纬度（北纬为正）'),
       defaultLng: Schema.number().default(120).description('默认经度（东经为正）'),
+      defaultTimezone: Schema.string().default('Asia/Shanghai').description('默认时区（IANA 名称，用于小时统计与熬夜判定；设置了家乡的用户按家乡时区，留空则使用服务器时区）'),
+      sunriseApiCrossCheck: Schema.boolean().default(false).description('使用 sunrise-sunset.org 交叉校验本地计算的日出日落时间（仅记录偏差日志，不影响结果）'),
     }),
   ]).description('作息检测'),
 
@@ -193,6 +288,7 @@ export const Config = Schema.intersect([
       Schema.const('global').description('全局合并（跨群统计）'),
       Schema.const('guild').description('按群分开统计'),
     ]).default('global').description('月度总结统计范围'),
+    monthlySummaryPersonalCards: Schema.boolean().default(false).description('自动月报除群合照外，同时发送每位成员的个人总结（新订阅的默认值，可用 pig.subscribe 按群修改）'),
   }).description('数据与月报'),
 
   deprecatedCompatSchema,
@@ -5,6 +5,8 @@ export interface Location {
   landmark: string
   landmarkZh: string  // 中文地标名
   timezone: string  // 时区标识
+  latitude: number  // 纬度（北纬为正）
+  longitude: number  // 经度（东经为正）
   landscapeUrl: string
 }
 
@@ -17,6 +19,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Fushimi Inari Shrine',
     landmarkZh: '伏见稻荷大社',
     timezone: 'Asia/Tokyo',
+    latitude: 34.9671,
+    longitude: 135.7727,
     landscapeUrl: 'https://images.unsplash.com/photo-1478436127897-769e1b3f0f36',
   },
   {
@@ -26,6 +30,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Dotonbori',
     landmarkZh: '道顿堀',
     timezone: 'Asia/Tokyo',
+    latitude: 34.6687,
+    longitude: 135.5013,
     landscapeUrl: 'https://images.unsplash.com/photo-1590559899731-a382839e5549',
   },
   {
@@ -35,6 +41,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Gyeongbokgung Palace',
     landmarkZh: '景福宫',
     timezone: 'Asia/Seoul',
+    latitude: 37.5796,
+    longitude: 126.977,
     landscapeUrl: 'https://images.unsplash.com/photo-1534274988757-a28bf1a57c17',
   },
   {
@@ -44,6 +52,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'The Bund',
     landmarkZh: '外滩',
     timezone: 'Asia/Shanghai',
+    latitude: 31.24,
+    longitude: 121.49,
     landscapeUrl: 'https://images.unsplash.com/photo-1537531383496-f4749b918caa',
   },
   {
@@ -53,6 +63,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Li River',
     landmarkZh: '漓江',
     timezone: 'Asia/Shanghai',
+    latitude: 24.78,
+    longitude: 110.49,
     landscapeUrl: 'https://images.unsplash.com/photo-1529921879218-f99546d03a50',
   },
   {
@@ -62,6 +74,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Grand Palace',
     landmarkZh: '大皇宫',
     timezone: 'Asia/Bangkok',
+    latitude: 13.75,
+    longitude: 100.4913,
     landscapeUrl: 'https://images.unsplash.com/photo-1563492065599-3520f775eeed',
   },
   {
@@ -71,6 +85,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Ha Long Bay',
     landmarkZh: '下龙湾',
     timezone: 'Asia/Ho_Chi_Minh',
+    latitude: 20.9101,
+    longitude: 107.1839,
     landscapeUrl: 'https://images.unsplash.com/photo-1528127269322-539801943592',
   },
   {
@@ -80,6 +96,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Taj Mahal',
     landmarkZh: '泰姬陵',
     timezone: 'Asia/Kolkata',
+    latitude: 27.1751,
+    longitude: 78.0421,
     landscapeUrl: 'https://images.unsplash.com/photo-1564507592333-c60657eea523',
   },
   {
@@ -89,6 +107,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Marina Bay Sands',
     landmarkZh: '滨海湾金沙',
     timezone: 'Asia/Singapore',
+    latitude: 1.2834,
+    longitude: 103.8607,
     landscapeUrl: 'https://images.unsplash.com/photo-1525625293386-3f8f99389edd',
   },
   {
@@ -98,6 +118,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Tanah Lot Temple',
     landmarkZh: '海神庙',
     timezone: 'Asia/Jakarta',
+    latitude: -8.6212,
+    longitude: 115.0868,
     landscapeUrl: 'https://images.unsplash.com/photo-1537996194471-e657df975ab4',
   },
   {
@@ -107,6 +129,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Himalaya Mountains',
     landmarkZh: '喜马拉雅山',
     timezone: 'Asia/Kathmandu',
+    latitude: 27.9881,
+    longitude: 86.925,
     landscapeUrl: 'https://images.unsplash.com/photo-1544735716-392fe2489ffa',
   },
   {
@@ -116,6 +140,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Burj Khalifa',
     landmarkZh: '哈利法塔',
     timezone: 'Asia/Dubai',
+    latitude: 25.1972,
+    longitude: 55.2744,
     landscapeUrl: 'https://images.unsplash.com/photo-1512453979798-5ea266f8880c',
   },
 
@@ -127,6 +153,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Big Ben',
     landmarkZh: '大本钟',
     timezone: 'Europe/London',
+    latitude: 51.5007,
+    longitude: -0.1246,
     landscapeUrl: 'https://images.unsplash.com/photo-1513635269975-59663e0ac1ad',
   },
   {
@@ -136,6 +164,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Lavender Fields',
     landmarkZh: '薰衣草田',
     timezone: 'Europe/Paris',
+    latitude: 43.833,
+    longitude: 5.7833,
     landscapeUrl: 'https://images.unsplash.com/photo-1499002238440-d264edd596ec',
   },
   {
@@ -145,6 +175,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Grand Canal',
     landmarkZh: '大运河',
     timezone: 'Europe/Rome',
+    latitude: 45.4408,
+    longitude: 12.3155,
     landscapeUrl: 'https://images.unsplash.com/photo-1514890547357-a9ee288728e0',
   },
   {
@@ -154,6 +186,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Colosseum',
     landmarkZh: '罗马斗兽场',
     timezone: 'Europe/Rome',
+    latitude: 41.8902,
+    longitude: 12.4922,
     landscapeUrl: 'https://images.unsplash.com/photo-1552832230-c0197dd311b5',
   },
   {
@@ -163,6 +197,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Sagrada Familia',
     landmarkZh: '圣家堂',
     timezone: 'Europe/Madrid',
+    latitude: 41.4036,
+    longitude: 2.1744,
     landscapeUrl: 'https://images.unsplash.com/photo-1583422409516-2895a77efded',
   },
   {
@@ -172,6 +208,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Oia Village',
     landmarkZh: '伊亚小镇',
     timezone: 'Europe/Athens',
+    latitude: 36.4618,
+    longitude: 25.3753,
     landscapeUrl: 'https://images.unsplash.com/photo-1613395877344-13d4a8e0d49e',
   },
   {
@@ -181,6 +219,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Canal Ring',
     landmarkZh: '运河环',
     timezone: 'Europe/Amsterdam',
+    latitude: 52.3676,
+    longitude: 4.9041,
     landscapeUrl: 'https://images.unsplash.com/photo-1534351590666-13e3e96b5017',
   },
   {
@@ -190,6 +230,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Swiss Alps',
     landmarkZh: '阿尔卑斯山',
     timezone: 'Europe/Zurich',
+    latitude: 46.6863,
+    longitude: 7.8632,
     landscapeUrl: 'https://images.unsplash.com/photo-1531366936337-7c912a4589a7',
   },
   {
@@ -199,6 +241,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Northern Lights',
     landmarkZh: '北极光',
     timezone: 'Europe/Oslo',
+    latitude: 69.6492,
+    longitude: 18.9553,
     landscapeUrl: 'https://images.unsplash.com/photo-1483347756197-71ef80e95f73',
   },
   {
@@ -208,6 +252,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Blue Lagoon',
     landmarkZh: '蓝湖温泉',
     timezone: 'Atlantic/Reykjavik',
+    latitude: 63.8804,
+    longitude: -22.4495,
     landscapeUrl: 'https://images.unsplash.com/photo-1504829857797-ddff29c27927',
   },
   {
@@ -217,6 +263,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Hot Air Balloons',
     landmarkZh: '热气球',
     timezone: 'Europe/Istanbul',
+    latitude: 38.6431,
+    longitude: 34.8289,
     landscapeUrl: 'https://images.unsplash.com/photo-1641128324972-af3212f0f6bd',
   },
   {
@@ -226,6 +274,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Red Square',
     landmarkZh: '红场',
     timezone: 'Europe/Moscow',
+    latitude: 55.7539,
+    longitude: 37.6208,
     landscapeUrl: 'https://images.unsplash.com/photo-1513326738677-b964603b136d',
   },
 
@@ -237,6 +287,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Pyramids of Giza',
     landmarkZh: '吉萨金字塔',
     timezone: 'Africa/Cairo',
+    latitude: 29.9792,
+    longitude: 31.1342,
     landscapeUrl: 'https://images.unsplash.com/photo-1503177119275-0aa32b3a9368',
   },
   {
@@ -246,6 +298,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Jardin Majorelle',
     landmarkZh: '马约尔花园',
     timezone: 'Africa/Casablanca',
+    latitude: 31.6417,
+    longitude: -8.0033,
     landscapeUrl: 'https://images.unsplash.com/photo-1489749798305-4fea3ae63d43',
   },
   {
@@ -255,6 +309,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Table Mountain',
     landmarkZh: '桌山',
     timezone: 'Africa/Johannesburg',
+    latitude: -33.9628,
+    longitude: 18.4098,
     landscapeUrl: 'https://images.unsplash.com/photo-1580060839134-75a5edca2e99',
   },
   {
@@ -264,6 +320,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Safari Savanna',
     landmarkZh: '马赛马拉草原',
     timezone: 'Africa/Nairobi',
+    latitude: -1.4061,
+    longitude: 35.0089,
     landscapeUrl: 'https://images.unsplash.com/photo-1547970810-dc1eac37d174',
   },
 
@@ -275,6 +333,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Times Square',
     landmarkZh: '时代广场',
     timezone: 'America/New_York',
+    latitude: 40.758,
+    longitude: -73.9855,
     landscapeUrl: 'https://images.unsplash.com/photo-1534430480872-3498386e7856',
   },
   {
@@ -284,6 +344,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Golden Gate Bridge',
     landmarkZh: '金门大桥',
     timezone: 'America/Los_Angeles',
+    latitude: 37.8199,
+    longitude: -122.4783,
     landscapeUrl: 'https://images.unsplash.com/photo-1449034446853-66c86144b0ad',
   },
   {
@@ -293,6 +355,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'The Strip',
     landmarkZh: '拉斯维加斯大道',
     timezone: 'America/Los_Angeles',
+    latitude: 36.1147,
+    longitude: -115.1728,
     landscapeUrl: 'https://images.unsplash.com/photo-1605833556294-ea5c7a74f57d',
   },
   {
@@ -302,6 +366,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Grand Canyon',
     landmarkZh: '大峡谷',
     timezone: 'America/Phoenix',
+    latitude: 36.1069,
+    longitude: -112.1129,
     landscapeUrl: 'https://images.unsplash.com/photo-1474044159687-1ee9f3a51722',
   },
   {
@@ -311,6 +377,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Lake Louise',
     landmarkZh: '路易斯湖',
     timezone: 'America/Edmonton',
+    latitude: 51.4254,
+    longitude: -116.1773,
     landscapeUrl: 'https://images.unsplash.com/photo-1502085671122-2d218cd434e6',
   },
   {
@@ -320,6 +388,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Niagara Falls',
     landmarkZh: '尼亚加拉瀑布',
     timezone: 'America/Toronto',
+    latitude: 43.0962,
+    longitude: -79.0377,
     landscapeUrl: 'https://images.unsplash.com/photo-1489447068241-b3490214e879',
   },
   {
@@ -329,6 +399,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Chichen Itza',
     landmarkZh: '奇琴伊察',
     timezone: 'America/Cancun',
+    latitude: 20.6843,
+    longitude: -88.5678,
     landscapeUrl: 'https://images.unsplash.com/photo-1518638150340-f706e86654de',
   },
 
@@ -340,6 +412,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Christ the Redeemer',
     landmarkZh: '基督救世主像',
     timezone: 'America/Sao_Paulo',
+    latitude: -22.9519,
+    longitude: -43.2105,
     landscapeUrl: 'https://images.unsplash.com/photo-1483729558449-99ef09a8c325',
   },
   {
@@ -349,6 +423,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Machu Picchu',
     landmarkZh: '马丘比丘',
     timezone: 'America/Lima',
+    latitude: -13.1631,
+    longitude: -72.545,
     landscapeUrl: 'https://images.unsplash.com/photo-1526392060635-9d6019884377',
   },
   {
@@ -358,6 +434,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Perito Moreno Glacier',
     landmarkZh: '莫雷诺冰川',
     timezone: 'America/Argentina/Buenos_Aires',
+    latitude: -50.4967,
+    longitude: -73.1377,
     landscapeUrl: 'https://images.unsplash.com/photo-1551279880-03041531948f',
   },
   {
@@ -367,6 +445,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Atacama Desert',
     landmarkZh: '阿塔卡马沙漠',
     timezone: 'America/Santiago',
+    latitude: -23.8634,
+    longitude: -69.1328,
     landscapeUrl: 'https://images.unsplash.com/photo-1489392191049-fc10c97e64b6',
   },
 
@@ -378,6 +458,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Sydney Opera House',
     landmarkZh: '悉尼歌剧院',
     timezone: 'Australia/Sydney',
+    latitude: -33.8568,
+    longitude: 151.2153,
     landscapeUrl: 'https://images.unsplash.com/photo-1506973035872-a4ec16b8e8d9',
   },
   {
@@ -387,6 +469,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Great Barrier Reef',
     landmarkZh: '大堡礁',
     timezone: 'Australia/Brisbane',
+    latitude: -18.2871,
+    longitude: 147.6992,
     landscapeUrl: 'https://images.unsplash.com/photo-1559128010-7c1ad6e1b6a5',
   },
   {
@@ -396,6 +480,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Milford Sound',
     landmarkZh: '米尔福德峡湾',
     timezone: 'Pacific/Auckland',
+    latitude: -44.6414,
+    longitude: 167.8974,
     landscapeUrl: 'https://images.unsplash.com/photo-1507699622108-4be3abd695ad',
   },
   {
@@ -405,6 +491,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Hobbiton',
     landmarkZh: '霍比屯',
     timezone: 'Pacific/Auckland',
+    latitude: -37.8721,
+    longitude: 175.6829,
     landscapeUrl: 'https://images.unsplash.com/photo-1507097634215-e82e6b552cae',
   },
   {
@@ -414,6 +502,8 @@ export const LOCATIONS: Location[] = [
     landmark: 'Fiji Islands',
     landmarkZh: '斐济群岛',
     timezone: 'Pacific/Fiji',
+    latitude: -17.7134,
+    longitude: 177.987,
     landscapeUrl: 'https://images.unsplash.com/photo-1589179899031-d86b7e3fcd61',
   },
 ]
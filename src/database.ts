@@ -1,10 +1,21 @@
 import { Context } from 'koishi'
+import { resolveCountryCodes } from './utils/countryMapping'
+import { foldPendingTravelLogs } from './services/countryStat'
 
 declare module 'koishi' {
   interface Tables {
     pig_user_state: PigUserState
     pig_travel_log: PigTravelLog
     pig_guild_config: PigGuildConfig
+    pig_location_pack: PigLocationPack
+    pig_postcard: PigPostcard
+    pig_souvenir: PigSouvenir
+    pig_badge: PigBadge
+    pig_usage: PigUsage
+    pig_privacy: PigPrivacy
+    pig_country_stat: PigCountryStat
+    pig_subscription: PigSubscription
+    pig_migration: PigMigration
   }
 }
 
@@ -15,12 +26,18 @@ export interface PigUserState {
   guildId: string
   lastWakeUp: Date
   lastSunrise: Date
+  // 家乡（pig.home 设置，跨群一致）
+  homeName?: string
   latitude?: number
   longitude?: number
+  timezone?: string
   abnormalCount: number
   // 熬夜统计（独立于作息异常）
   nightOwlCount: number
   lastNightOwlDate?: Date
+  // 早起连续天数（日出后 2 小时内首次发言）
+  earlyRiserStreak: number
+  lastEarlyRiseDate?: Date
   // 消息统计
   totalMessageCount: number
   nightMessageCount: number  // 深夜消息数
@@ -37,11 +54,22 @@ export interface PigTravelLog {
   timestamp: Date
   country: string
   countryZh: string
+  // ISO 3166-1 alpha-2 国家代码与大洲代码（写入时解析，无法识别时为空）
+  countryIso?: string
+  continent?: string
   location: string
   locationZh: string
   timezone: string
+  latitude?: number
+  longitude?: number
+  // 与上一次旅行之间的大圆距离（公里）
+  distanceKm: number
+  // 目的地风景图（用于重新渲染卡片，例如明信片）
+  landscapeUrl?: string
   imagePath: string
   isAIGC: boolean
+  // 是否已计入 pig_country_stat（清理前必须先汇总）
+  aggregated: boolean
 }
 
 // 群组配置表（用于存储群级别的设置，如统一背景图）
@@ -55,6 +83,135 @@ export interface PigGuildConfig {
   backgroundSetBy?: string
   // 设置时间
   backgroundSetAt?: Date
+  // 目的地主题：允许的大洲代码（为空表示不限）
+  allowedContinents?: string[]
+  // 国家过滤模式：allow 仅允许列表内国家，block 屏蔽列表内国家，空为不过滤
+  countryFilterMode?: string
+  // 国家过滤列表（ISO 代码）
+  countryFilter?: string[]
+  // 群级 LLM 地点生成上下文（覆盖全局 llmLocationCustomContext）
+  llmContext?: string
+  // 群级配置覆盖（JSON，键为 Config 中允许按群覆盖的配置项）
+  overrides?: string
+}
+
+// 自定义地点包（管理员导入，启用后并入预设地点库）
+export interface PigLocationPack {
+  id: number
+  name: string
+  description: string
+  // JSON: Location[]
+  locations: string
+  enabled: boolean
+  createdBy: string
+  createdAt: Date
+}
+
+// 明信片（用户把自己最近一次旅行寄给群友）
+export interface PigPostcard {
+  id: number
+  platform: string
+  guildId: string
+  senderId: string
+  senderName: string
+  recipientId: string
+  message: string
+  country: string
+  countryZh: string
+  location: string
+  locationZh: string
+  travelLogId: number
+  createdAt: Date
+}
+
+// 纪念品收藏（每位用户每种纪念品一行）
+export interface PigSouvenir {
+  id: number
+  userId: string
+  platform: string
+  souvenirId: string
+  count: number
+  firstObtainedAt: Date
+  lastObtainedAt: Date
+}
+
+// 已解锁的成就徽章（每位用户每个成就一行）
+export interface PigBadge {
+  id: number
+  userId: string
+  platform: string
+  badgeId: string
+  // 解锁时所在的群（私聊为空）
+  guildId: string
+  unlockedAt: Date
+}
+
+// 旅行使用计数（用于频率限制，重启后仍然有效）
+export interface PigUsage {
+  id: number
+  platform: string
+  // user：用户每日计数，guild：群组每小时计数
+  scope: string
+  scopeId: string
+  // 计数周期：日期（YYYY-MM-DD）或 UTC 小时（YYYY-MM-DDTHH）
+  period: string
+  count: number
+  lastUsedAt: Date
+}
+
+// 终身国家统计（每位用户每个群每个国家一行，旅行日志清理后仍保留）
+export interface PigCountryStat {
+  id: number
+  platform: string
+  userId: string
+  guildId: string
+  // 国家去重键：ISO 代码，无法识别时为原始国家名
+  countryKey: string
+  countryIso: string
+  country: string
+  countryZh: string
+  continent: string
+  visits: number
+  distanceKm: number
+  firstVisitedAt: Date
+  lastVisitedAt: Date
+}
+
+// 群组月报订阅（每个群一行，旅行时自动登记或由管理员设置）
+export interface PigSubscription {
+  id: number
+  platform: string
+  guildId: string
+  // 发送月报的频道
+  channelId: string
+  // 登记时的机器人账号
+  selfId: string
+  enabled: boolean
+  // 是否同时发送成员个人月报
+  personalCards: boolean
+  // auto：旅行时自动登记，manual：管理员设置
+  source: string
+  updatedAt: Date
+}
+
+// 已完成的一次性数据迁移（按名称记录，避免每次启动重复执行）
+export interface PigMigration {
+  name: string
+  completedAt: Date
+}
+
+// 用户隐私设置（跨群，每位用户一行）
+export interface PigPrivacy {
+  id: number
+  platform: string
+  userId: string
+  // 不允许他人 pig @我
+  noTargeting: boolean
+  // 不自动旅行（静默记录自动旅行、作息异常检测）
+  noAutoTravel: boolean
+  // 不统计作息与消息，不上排行榜
+  noStats: boolean
+  updatedAt: Date
 }
 
 export function applyDatabase(ctx: Context) {
@@ -65,11 +222,15 @@ export function applyDatabase(ctx: Context) {
     guildId: 'string',
     lastWakeUp: 'timestamp',
     lastSunrise: 'timestamp',
+    homeName: 'string',
     latitude: 'float',
     longitude: 'float',
+    timezone: 'string',
     abnormalCount: 'unsigned',
     nightOwlCount: 'unsigned',
     lastNightOwlDate: 'timestamp',
+    earlyRiserStreak: 'unsigned',
+    lastEarlyRiseDate: 'timestamp',
     totalMessageCount: 'unsigned',
     nightMessageCount: 'unsigned',
     hourlyMessageCounts: 'text',
@@ -84,11 +245,18 @@ export function applyDatabase(ctx: Context) {
     timestamp: 'timestamp',
     country: 'string',
     countryZh: 'string',
+    countryIso: 'string',
+    continent: 'string',
     location: 'string',
     locationZh: 'string',
     timezone: 'string',
+    latitude: 'float',
+    longitude: 'float',
+    distanceKm: 'double',
+    landscapeUrl: 'text',
     imagePath: 'string',
     isAIGC: 'boolean',
+    aggregated: { type: 'boolean', initial: false },
   }, { primary: 'id', autoInc: true })
 
   // 群组配置表
@@ -99,5 +267,175 @@ export function applyDatabase(ctx: Context) {
     backgroundImage: 'string',
     backgroundSetBy: 'string',
     backgroundSetAt: 'timestamp',
+    allowedContinents: 'list',
+    countryFilterMode: 'string',
+    countryFilter: 'list',
+    llmContext: 'text',
+    overrides: 'text',
   }, { primary: 'id', autoInc: true })
+
+  // 自定义地点包
+  ctx.model.extend('pig_location_pack', {
+    id: 'unsigned',
+    name: 'string',
+    description: 'string',
+    locations: 'text',
+    enabled: 'boolean',
+    createdBy: 'string',
+    createdAt: 'timestamp',
+  }, { primary: 'id', autoInc: true, unique: ['name'] })
+
+  // 明信片
+  ctx.model.extend('pig_postcard', {
+    id: 'unsigned',
+    platform: 'string',
+    guildId: 'string',
+    senderId: 'string',
+    senderName: 'string',
+    recipientId: 'string',
+    message: 'text',
+    country: 'string',
+    countryZh: 'string',
+    location: 'string',
+    locationZh: 'string',
+    travelLogId: 'unsigned',
+    createdAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 纪念品收藏
+  ctx.model.extend('pig_souvenir', {
+    id: 'unsigned',
+    userId: 'string',
+    platform: 'string',
+    souvenirId: 'string',
+    count: 'unsigned',
+    firstObtainedAt: 'timestamp',
+    lastObtainedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 成就徽章
+  ctx.model.extend('pig_badge', {
+    id: 'unsigned',
+    userId: 'string',
+    platform: 'string',
+    badgeId: 'string',
+    guildId: 'string',
+    unlockedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 旅行使用计数
+  ctx.model.extend('pig_usage', {
+    id: 'unsigned',
+    platform: 'string',
+    scope: 'string',
+    scopeId: 'string',
+    period: 'string',
+    count: 'unsigned',
+    lastUsedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 终身国家统计
+  ctx.model.extend('pig_country_stat', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    guildId: 'string',
+    countryKey: 'string',
+    countryIso: 'string',
+    country: 'string',
+    countryZh: 'string',
+    continent: 'string',
+    visits: 'unsigned',
+    distanceKm: 'double',
+    firstVisitedAt: 'timestamp',
+    lastVisitedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 群组月报订阅
+  ctx.model.extend('pig_subscription', {
+    id: 'unsigned',
+    platform: 'string',
+    guildId: 'string',
+    channelId: 'string',
+    selfId: 'string',
+    enabled: 'boolean',
+    personalCards: 'boolean',
+    source: 'string',
+    updatedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  // 一次性数据迁移记录
+  ctx.model.extend('pig_migration', {
+    name: 'string',
+    completedAt: 'timestamp',
+  }, { primary: 'name' })
+
+  // 用户隐私设置
+  ctx.model.extend('pig_privacy', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    noTargeting: 'boolean',
+    noAutoTravel: 'boolean',
+    noStats: 'boolean',
+    updatedAt: 'timestamp',
+  }, { primary: 'id', autoInc: true })
+
+  ctx.on('ready', async () => {
+    try {
+      await runMigrationOnce(ctx, 'travel-log-country-codes', backfillTravelLogCountries)
+    } catch (e) {
+      ctx.logger('pig').warn(`Failed to backfill travel log country codes: ${e}`)
+    }
+
+    // 迁移：把已有的旅行记录汇总到终身统计（需在补全国家代码之后）
+    try {
+      const folded = await foldPendingTravelLogs(ctx)
+      if (folded) {
+        ctx.logger('pig').info(`Folded ${folded} travel logs into lifetime country stats`)
+      }
+    } catch (e) {
+      ctx.logger('pig').warn(`Failed to fold travel logs into country stats: ${e}`)
+    }
+  })
+}
+
+/**
+ * 执行一次性迁移，成功后记录名称，之后启动时跳过
+ */
+async function runMigrationOnce(ctx: Context, name: string, migrate: (ctx: Context) => Promise<void>) {
+  const [done] = await ctx.database.get('pig_migration', { name })
+  if (done) return
+  await migrate(ctx)
+  await ctx.database.upsert('pig_migration', [{ name, completedAt: new Date() }])
+}
+
+/**
+ * 迁移：为旧的旅行记录补全 countryIso / continent
+ * 只查询尚未填写国家代码的记录，按解析结果分组批量更新；无法识别的记录保持为空
+ * 新记录在写入时解析，因此只需执行一次
+ */
+async function backfillTravelLogCountries(ctx: Context) {
+  const logs = await ctx.database.get('pig_travel_log', {
+    $or: [{ countryIso: '' }, { countryIso: null }],
+  }, ['id', 'country', 'countryZh'])
+  const groups = new Map<string, { countryIso: string; continent: string; ids: number[] }>()
+
+  for (const log of logs) {
+    const codes = resolveCountryCodes(log.country, log.countryZh)
+    if (!codes.countryIso) continue
+    const group = groups.get(codes.countryIso) ?? { ...codes, ids: [] }
+    group.ids.push(log.id)
+    groups.set(codes.countryIso, group)
+  }
+
+  let updated = 0
+  for (const { countryIso, continent, ids } of groups.values()) {
+    await ctx.database.set('pig_travel_log', { id: ids }, { countryIso, continent })
+    updated += ids.length
+  }
+
+  if (updated) {
+    ctx.logger('pig').info(`Backfilled country codes for ${updated} travel logs`)
+  }
 }
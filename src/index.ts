@@ -1,4 +1,4 @@
-import { Context, segment, h } from 'koishi'
+import { Context, Session, segment, h } from 'koishi'
 import { promises as fs } from 'fs'
 import { join, resolve } from 'path'
 import {} from 'koishi-plugin-cron'
@@ -7,12 +7,42 @@ import './types'
 import { Config } from './config'
 import { applyDatabase } from './database'
 import { getSunriseInfo } from './services/sunrise'
+import { getUserHome, setUserHome, clearUserHome, clearHomeCache, resolveHomeInput, getUserTimezone } from './services/home'
+import { formatLocalTime, getLocalDateKey, getLocalHour } from './utils/timezone'
 import { triggerTravelSequence, TravelResult, UserInfo } from './services/travel'
 import { prepareMonthlySummary, generateMonthlySummaryCard, getUsersWithLogsInMonth, prepareMonthlySummaryGroup, generateMonthlySummaryGroupCard } from './services/summary'
 import { getPigLeaderboard, getSleepLeaderboard, generatePigLeaderboardCard, generateSleepLeaderboardCard } from './services/leaderboard'
 import { prepareWorldMapData, prepareGuildWorldMapData, generateWorldMapCard } from './services/worldmap'
 import { getAdminBackgroundImage, setGuildBackgroundImage, getGuildBackgroundInfo } from './services/background'
 import { ensurePigSvgAssets, setPigSvgDir } from './services/pig-icon'
+import { formatDistanceKm } from './utils/geo'
+import { registerBuiltinLocationProviders } from './services/provider'
+import { refillLocationPool } from './services/location'
+import { clearLocationPool } from './services/pool'
+import { isPigAdmin, isPigOwner } from './services/permission'
+import { getUserPrivacy, setUserPrivacy, formatUserPrivacy, clearPrivacyCache, UserPrivacy } from './services/privacy'
+import { collectExportData, formatExportData, getExportMimeType, isExportFormat, EXPORT_FORMATS } from './services/export'
+import { forgetUser, formatForgetResult } from './services/forget'
+import { foldPendingTravelLogs } from './services/countryStat'
+import { reserveTravelQuota, revertTravelUsage, cleanupUsage } from './services/quota'
+import { getGuildSubscription, recordGuildSubscription, setGuildSubscription, deliverMonthlySummary } from './services/subscription'
+import {
+  GUILD_CONFIG_KEYS,
+  isGuildConfigKey,
+  parseGuildConfigValue,
+  formatGuildConfigValue,
+  getGuildConfigOverrides,
+  resolveGuildConfig,
+  setGuildConfigOverride,
+  resetGuildConfigOverride,
+  clearGuildConfigCache,
+} from './services/guildConfig'
+import { getGuildRegionFilter, setGuildRegionFilter, resetGuildRegionFilter, describeRegionFilter, GuildRegionFilter } from './services/region'
+import { parseContinent, parseCountryISOCode, ContinentCode } from './utils/countryMapping'
+import { sendPostcard, getPostcardInbox } from './services/postcard'
+import { prepareSouvenirBagData, generateSouvenirBagCard, formatSouvenirDrop } from './services/souvenir'
+import { evaluateAchievements, formatBadgeUnlock, getEarlyRiserUpdate, prepareBadgeCardData, generateBadgeCard } from './services/achievement'
+import { importLocationPack, listLocationPacks, removeLocationPack, exportLocationPack, setLocationPackEnabled, isValidPackName, assertPublicPackUrl } from './services/pack'
 
 export const name = 'my-pig-group-friends'
 export const inject = {
@@ -20,27 +50,40 @@ export const inject = {
   optional: ['mediaLuna', 'chatluna_storage', 'chatluna', 'glyph']
 }
 export * from './config'
+export type { Location } from './constants'
+export { registerLocationProvider, listLocationProviders } from './services/provider'
+export type { LocationProvider, LocationRequest } from './services/provider'
 
 // 格式化旅行结果消息
 function formatTravelMessage(result: TravelResult, userId: string, config: Config): string {
+  const distanceLine = result.totalDistanceKm > 0
+    ? `\n✈️ 本次飞行 ${formatDistanceKm(result.distanceKm)} km，累计 ${formatDistanceKm(result.totalDistanceKm)} km`
+    : ''
+  const souvenirLine = result.souvenir ? `\n${formatSouvenirDrop(result.souvenir)}` : ''
+  const homeLine = result.homeDistanceKm !== null && result.homeDistanceKm !== undefined
+    ? `\n🏠 距家 ${formatDistanceKm(result.homeDistanceKm)} km`
+    : ''
+  const badgeLine = result.badges?.length ? `\n${formatBadgeUnlock(result.badges)}` : ''
+  const text = `${segment.at(userId)} ${result.msg}${distanceLine}${homeLine}${souvenirLine}${badgeLine}`
+
   if (config.outputMode === 'text') {
-    return `${segment.at(userId)} ${result.msg}`
+    return text
   }
 
   // 图片模式
   // 优先使用存储服务返回的 URL
   if (result.imageUrl) {
-    return `${segment.at(userId)} ${result.msg}\n${segment.image(result.imageUrl)}`
+    return `${text}\n${segment.image(result.imageUrl)}`
   }
 
   // 回退到 base64（当存储服务不可用时）
   if (result.imageBuffer) {
     const base64 = result.imageBuffer.toString('base64')
-    return `${segment.at(userId)} ${result.msg}\n${segment.image(`data:image/png;base64,${base64}`)}`
+    return `${text}\n${segment.image(`data:image/png;base64,${base64}`)}`
   }
 
   // 无图片时只发文本
-  return `${segment.at(userId)} ${result.msg}`
+  return text
 }
 
 export function apply(ctx: Context, config: Config) {
@@ -61,6 +104,7 @@ export function apply(ctx: Context, config: Config) {
   }
 
   applyDatabase(ctx)
+  registerBuiltinLocationProviders(ctx)
   const dataRoot = resolve(ctx.baseDir ?? process.cwd(), 'data', 'pig', 'svgs')
   const cwdRoot = resolve(process.cwd(), 'data', 'pig', 'svgs')
   const parentRoot = resolve(process.cwd(), '..', 'data', 'pig', 'svgs')
@@ -101,16 +145,31 @@ export function apply(ctx: Context, config: Config) {
     lastSunrise: Date | null
   }>()
 
-  // 获取今日日出时间（带缓存）
-  let cachedSunriseDate: string | null = null
-  let cachedSunrise: Date | null = null
-  const getTodaySunrise = async (): Promise<Date> => {
-    const today = new Date().toDateString()
-    if (cachedSunriseDate === today && cachedSunrise) return cachedSunrise
-    const info = await getSunriseInfo(ctx, config.defaultLat, config.defaultLng)
-    cachedSunrise = info.sunrise
-    cachedSunriseDate = today
-    return cachedSunrise
+  // 获取当前会话所在群组生效的配置（全局配置 + 群级覆盖）
+  const getSessionConfig = (session: Session) => resolveGuildConfig(ctx, config, session.platform, session.guildId || '')
+
+  // 检查成就并在当前会话播报新解锁的成就
+  const announceAchievements = async (session: Session) => {
+    try {
+      const guildConfig = await getSessionConfig(session)
+      const unlocked = await evaluateAchievements(ctx, guildConfig, session.userId, session.platform, session.guildId || '')
+      if (unlocked.length) {
+        await session.send(`${segment.at(session.userId)} ${formatBadgeUnlock(unlocked)}`)
+      }
+    } catch (e) {
+      ctx.logger('pig').warn(`Failed to evaluate achievements for ${session.userId}: ${e}`)
+    }
+  }
+
+  // 群内发生旅行时登记月报订阅（已有订阅不变）
+  const rememberSubscription = (session: Session) => {
+    if (!session.guildId) return
+    recordGuildSubscription(ctx, config, {
+      platform: session.platform,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      selfId: session.selfId,
+    }).catch(e => ctx.logger('pig').warn(`Failed to record subscription for ${session.guildId}: ${e}`))
   }
 
   const resolveUserArg = (argv: any, user?: string) => {
@@ -140,6 +199,11 @@ export function apply(ctx: Context, config: Config) {
         userId = session.userId
       }
 
+      // 对方关闭了被他人 pig 时拒绝
+      if ((platform !== session.platform || userId !== session.userId) && (await getUserPrivacy(ctx, platform, userId)).noTargeting) {
+        return '🐷 对方设置了不允许他人替 TA 出发旅行'
+      }
+
       // Try to get user info from session if targeting self, otherwise use basic info
       let userInfo: UserInfo
       if (session?.userId === userId) {
@@ -192,14 +256,34 @@ export function apply(ctx: Context, config: Config) {
         }
       }
 
-      const result = await triggerTravelSequence(ctx, config, userInfo, platform, session.guildId || '')
-      return formatTravelMessage(result, userId, config)
+      const guildConfig = await getSessionConfig(session)
+      const bypassQuota = (config.rateLimitAdminBypass ?? true) && await isPigAdmin(ctx, config, session)
+      // 按发起者计数（包括 pig @某人），频率限制只读全局配置；旅行失败时退还
+      const usedAt = new Date()
+      if (!bypassQuota) {
+        const refusal = await reserveTravelQuota(ctx, config, session.platform, session.userId, session.guildId || '', usedAt)
+        if (refusal) return refusal
+      }
+      rememberSubscription(session)
+
+      try {
+        const result = await triggerTravelSequence(ctx, guildConfig, userInfo, platform, session.guildId || '')
+        return formatTravelMessage(result, userId, guildConfig)
+      } catch (e) {
+        ctx.logger('pig').warn(`Failed to travel for ${userId}: ${e}`)
+        if (!bypassQuota) {
+          await revertTravelUsage(ctx, config, session.platform, session.userId, session.guildId || '', usedAt)
+            .catch(err => ctx.logger('pig').warn(`Failed to revert travel usage for ${session.userId}: ${err}`))
+        }
+        return `旅行失败: ${e instanceof Error ? e.message : e}`
+      }
     })
 
   // 月度总结调试命令
   ctx.command('pig.summary [year:number] [month:number] [user:user]', '生成月度旅行总结')
     .option('all', '-a 生成所有用户的总结')
     .action(async ({ session, options }, yearArg, monthArg, targetUser) => {
+      const guildConfig = await getSessionConfig(session)
       const now = new Date()
       // 默认为上个月
       let year = yearArg ?? now.getFullYear()
@@ -238,7 +322,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         if (options.all) {
-          if (config.monthlySummaryScope === 'guild' && !session.guildId) {
+          if (guildConfig.monthlySummaryScope === 'guild' && !session.guildId) {
             return '当前模式为按群统计，请在群组内使用该命令'
           }
           // 生成所有用户的总结
@@ -246,7 +330,7 @@ export function apply(ctx: Context, config: Config) {
             ctx,
             year,
             month,
-            config.monthlySummaryScope === 'guild' ? session.guildId : undefined
+            guildConfig.monthlySummaryScope === 'guild' ? session.guildId : undefined
           )
 
           if (users.length === 0) {
@@ -293,18 +377,18 @@ export function apply(ctx: Context, config: Config) {
             ctx,
             year,
             month,
-            config.monthlySummaryScope === 'guild' ? session.guildId : undefined,
+            guildConfig.monthlySummaryScope === 'guild' ? session.guildId : undefined,
             profiles
           )
 
-          if (config.monthlySummaryScope === 'guild' && session.guildId) {
+          if (guildConfig.monthlySummaryScope === 'guild' && session.guildId) {
             const adminBackgroundImage = await getAdminBackgroundImage(ctx, session.platform, session.guildId)
             if (adminBackgroundImage) {
               summaryGroupData.backgroundImage = adminBackgroundImage
             }
           }
 
-          const result = await generateMonthlySummaryGroupCard(ctx, config, summaryGroupData)
+          const result = await generateMonthlySummaryGroupCard(ctx, guildConfig, summaryGroupData)
           const base64 = result.buffer.toString('base64')
           return `${year}年${month}月 旅行大合照\n${segment.image(`data:image/png;base64,${base64}`)}`
         } else {
@@ -335,7 +419,7 @@ export function apply(ctx: Context, config: Config) {
               }
             } catch (e) {
               // 忽略获取失败
-              if (config.debug) {
+              if (guildConfig.debug) {
                 ctx.logger('pig').debug(`Failed to get guild member info: ${e}`)
               }
             }
@@ -355,10 +439,10 @@ export function apply(ctx: Context, config: Config) {
             userInfo.avatarUrl,
             year,
             month,
-            config.monthlySummaryScope === 'guild' ? session.guildId : undefined
+            guildConfig.monthlySummaryScope === 'guild' ? session.guildId : undefined
           )
 
-          const result = await generateMonthlySummaryCard(ctx, config, summaryData)
+          const result = await generateMonthlySummaryCard(ctx, guildConfig, summaryData)
 
           // 发送卡片
           const base64 = result.buffer.toString('base64')
@@ -379,6 +463,7 @@ export function apply(ctx: Context, config: Config) {
       }
 
       try {
+        const guildConfig = await getSessionConfig(session)
         await session.send('正在生成猪排行榜...')
 
         // 获取排行数据
@@ -417,7 +502,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 生成卡片
-        const result = await generatePigLeaderboardCard(ctx, config, entries, session.guildId, backgroundImage)
+        const result = await generatePigLeaderboardCard(ctx, guildConfig, entries, session.guildId, backgroundImage)
 
         // 返回图片
         const base64 = result.buffer.toString('base64')
@@ -475,7 +560,8 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 生成卡片
-        const result = await generateSleepLeaderboardCard(ctx, config, entries, session.guildId, backgroundImage)
+        const guildConfig = await getSessionConfig(session)
+        const result = await generateSleepLeaderboardCard(ctx, guildConfig, entries, session.guildId, backgroundImage)
 
         // 返回图片
         const base64 = result.buffer.toString('base64')
@@ -532,7 +618,7 @@ export function apply(ctx: Context, config: Config) {
             return '本群还没有旅行记录'
           }
 
-          const result = await generateWorldMapCard(ctx, config, data)
+          const result = await generateWorldMapCard(ctx, await getSessionConfig(session), data)
           const base64 = result.buffer.toString('base64')
           return segment.image(`data:image/png;base64,${base64}`)
         } catch (e) {
@@ -603,7 +689,7 @@ export function apply(ctx: Context, config: Config) {
           return '还没有旅行记录'
         }
 
-        const result = await generateWorldMapCard(ctx, config, data)
+        const result = await generateWorldMapCard(ctx, await getSessionConfig(session), data)
         const base64 = result.buffer.toString('base64')
         return segment.image(`data:image/png;base64,${base64}`)
       } catch (e) {
@@ -612,6 +698,271 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  // 明信片：把自己最近一次旅行寄给群友
+  ctx.command('pig.postcard <user:user> [message:text]', '把最近一次旅行做成明信片寄给群友')
+    .alias('寄明信片')
+    .example('pig.postcard @某人 早安！')
+    .action(async ({ session }, user, message) => {
+      if (!user) return '请指定收件人，例如：pig.postcard @某人 早安！'
+      const [platform, recipientId] = user.split(':')
+      if (platform === session.platform && recipientId === session.userId) {
+        return '不能给自己寄明信片哦'
+      }
+
+      let recipientName = recipientId
+      if (session.guildId && session.bot?.getGuildMember) {
+        try {
+          const member = await session.bot.getGuildMember(session.guildId, recipientId)
+          recipientName = member.nick || member.name || member.user?.name || recipientName
+        } catch {
+          // ignore
+        }
+      }
+      if (recipientName === recipientId && session.bot?.getUser) {
+        try {
+          const recipientUser = await session.bot.getUser(recipientId)
+          recipientName = recipientUser.name || recipientName
+        } catch {
+          // ignore
+        }
+      }
+
+      const sender: UserInfo = {
+        userId: session.userId,
+        username: session.author?.nickname || session.author?.name || session.username || session.userId,
+        avatarUrl: session.author?.avatar || '',
+      }
+
+      const result = await sendPostcard(
+        ctx,
+        await getSessionConfig(session),
+        sender,
+        { platform, userId: recipientId, username: recipientName },
+        session.platform,
+        session.guildId || '',
+        message || ''
+      )
+      if (!result) {
+        return '你还没有旅行过，先用 pig 去旅行吧！'
+      }
+
+      const { location, postcard, card } = result
+      const text = `${segment.at(recipientId)} 📮 ${sender.username} 从 ${location.landmarkZh}（${location.countryZh}）给你寄来一张明信片：「${postcard.message}」`
+      if (!card) return text
+      return `${text}\n${segment.image(`data:image/png;base64,${card.buffer.toString('base64')}`)}`
+    })
+
+  ctx.command('pig.postcard.inbox', '查看收到的明信片')
+    .alias('明信片收件箱')
+    .action(async ({ session }) => {
+      const { total, postcards } = await getPostcardInbox(ctx, session.platform, session.userId)
+      if (!total) {
+        return '📭 还没有收到明信片'
+      }
+
+      const lines = postcards.map((postcard, index) => {
+        const date = new Date(postcard.createdAt)
+        const place = `${postcard.locationZh || postcard.location}（${postcard.countryZh || postcard.country}）`
+        return `${index + 1}. ${date.getMonth() + 1}/${date.getDate()} 来自 ${postcard.senderName} · ${place}：「${postcard.message}」`
+      })
+      const header = total > postcards.length
+        ? `📬 共收到 ${total} 张明信片，最近 ${postcards.length} 张：`
+        : `📬 共收到 ${total} 张明信片：`
+      return [header, ...lines].join('\n')
+    })
+
+  // 纪念品收藏
+  ctx.command('pig.bag', '查看纪念品小猪收藏')
+    .alias('纪念品')
+    .action(async ({ session }) => {
+      const username = session.author?.nickname || session.author?.name || session.username || session.userId
+      const avatarUrl = session.author?.avatar || ''
+
+      try {
+        const data = await prepareSouvenirBagData(ctx, session.userId, session.platform, username, avatarUrl)
+        if (!data.ownedCount) {
+          return '还没有纪念品，先用 pig 去旅行吧！'
+        }
+
+        const result = await generateSouvenirBagCard(ctx, await getSessionConfig(session), data)
+        const base64 = result.buffer.toString('base64')
+        return segment.image(`data:image/png;base64,${base64}`)
+      } catch (e) {
+        ctx.logger('pig').error('Failed to generate souvenir card:', e)
+        return `生成纪念品收藏失败: ${e}`
+      }
+    })
+
+  // 成就徽章
+  ctx.command('pig.badge', '查看成就徽章')
+    .alias('成就')
+    .action(async ({ session }) => {
+      const guildConfig = await getSessionConfig(session)
+      if (!(guildConfig.achievementEnabled ?? true)) {
+        return '成就功能未启用'
+      }
+
+      const username = session.author?.nickname || session.author?.name || session.username || session.userId
+      const avatarUrl = session.author?.avatar || ''
+
+      try {
+        const data = await prepareBadgeCardData(ctx, guildConfig, session.userId, session.platform, username, avatarUrl)
+        const result = await generateBadgeCard(ctx, guildConfig, data)
+        const base64 = result.buffer.toString('base64')
+        return segment.image(`data:image/png;base64,${base64}`)
+      } catch (e) {
+        ctx.logger('pig').error('Failed to generate badge card:', e)
+        return `生成成就卡片失败: ${e}`
+      }
+    })
+
+  // 家乡设置：用于日出检测、熬夜时段与离家距离
+  ctx.command('pig.home [location:text]', '设置/查看家乡（城市名、纬度,经度 或 IANA 时区）')
+    .alias('家乡')
+    .option('reset', '-r 清除家乡设置')
+    .example('pig.home 上海')
+    .example('pig.home 31.23,121.47')
+    .example('pig.home Europe/Paris')
+    .action(async ({ session, options }, location) => {
+      const { platform, userId } = session
+
+      if (options.reset) {
+        await clearUserHome(ctx, platform, userId)
+        return '🏠 已清除家乡设置，将使用默认坐标'
+      }
+
+      if (!location?.trim()) {
+        const home = await getUserHome(ctx, platform, userId)
+        if (!home) {
+          return '还没有设置家乡，例如：pig.home 上海 / pig.home 31.23,121.47 / pig.home Europe/Paris'
+        }
+        return `🏠 当前家乡：${home.name}（${home.timezone}，${home.latitude.toFixed(2)}, ${home.longitude.toFixed(2)}）`
+      }
+
+      const guildConfig = await getSessionConfig(session)
+      const home = resolveHomeInput(location, guildConfig.defaultLat)
+      if (!home) {
+        return `无法识别「${location.trim()}」，请输入城市名、纬度,经度 或 IANA 时区（如 Asia/Shanghai）`
+      }
+
+      await setUserHome(ctx, platform, userId, session.guildId || '', home)
+      const sunriseInfo = await getSunriseInfo(ctx, guildConfig, home.latitude, home.longitude)
+      return [
+        `🏠 家乡已设置为 ${home.name}（${home.timezone}，${home.latitude.toFixed(2)}, ${home.longitude.toFixed(2)}）`,
+        `🌅 当地今日日出 ${formatLocalTime(home.timezone, sunriseInfo.sunrise)}，日落 ${formatLocalTime(home.timezone, sunriseInfo.sunset)}`,
+      ].join('\n')
+    })
+
+  // 隐私设置：被他人 pig、自动旅行与作息统计
+  ctx.command('pig.privacy [setting:string] [value:string]', '查看/修改隐私设置')
+    .alias('隐私')
+    .usage('pig.privacy <target|auto|stats|all> <on|off>\ntarget：禁止他人 pig 我；auto：不自动旅行；stats：不统计作息、不上排行榜')
+    .example('pig.privacy')
+    .example('pig.privacy target on')
+    .example('pig.privacy all off')
+    .action(async ({ session }, setting, value) => {
+      const { platform, userId } = session
+
+      if (!setting) {
+        const privacy = await getUserPrivacy(ctx, platform, userId)
+        return `🔒 你的隐私设置：\n${formatUserPrivacy(privacy)}\n\n修改：pig.privacy <target|auto|stats|all> <on|off>`
+      }
+
+      const settingKeys: Record<string, (keyof UserPrivacy)[]> = {
+        target: ['noTargeting'],
+        auto: ['noAutoTravel'],
+        stats: ['noStats'],
+        all: ['noTargeting', 'noAutoTravel', 'noStats'],
+      }
+      const keys = settingKeys[setting.toLowerCase()]
+      if (!keys) return '可用设置：target（禁止他人 pig 我）、auto（不自动旅行）、stats（不统计作息）、all（全部）'
+
+      const normalized = (value || '').trim().toLowerCase()
+      let enabled: boolean
+      if (['on', 'true', '开', '开启'].includes(normalized)) {
+        enabled = true
+      } else if (['off', 'false', '关', '关闭'].includes(normalized)) {
+        enabled = false
+      } else {
+        return '请填写 on 或 off，例如：pig.privacy target on'
+      }
+
+      const patch: Partial<UserPrivacy> = {}
+      for (const key of keys) patch[key] = enabled
+      const privacy = await setUserPrivacy(ctx, platform, userId, patch)
+      return `🔒 已更新隐私设置：\n${formatUserPrivacy(privacy)}`
+    })
+
+  // 导出个人或本群数据
+  ctx.command('pig.export [format:string]', '导出旅行记录与作息统计（json / csv / geojson）')
+    .alias('导出')
+    .option('guild', '-g 导出本群全部成员的数据（仅管理员可用，不含成员家乡与时区）')
+    .usage('json 包含旅行记录、去过的国家与作息统计；csv 与 geojson 仅包含旅行记录')
+    .example('pig.export')
+    .example('pig.export csv')
+    .example('pig.export geojson -g')
+    .action(async ({ session, options }, format) => {
+      const exportFormat = (format || 'json').toLowerCase()
+      if (!isExportFormat(exportFormat)) return `不支持的格式：${format}，可选 ${EXPORT_FORMATS.join(' / ')}`
+
+      const { platform, userId, guildId } = session
+      if (options.guild) {
+        if (!guildId) return '请在群组中使用此命令'
+        if (!await isPigAdmin(ctx, config, session)) return '仅管理员可导出本群数据'
+      }
+
+      try {
+        const data = await collectExportData(ctx, platform, options.guild ? { guildId } : { userId })
+        if (!data.trips.length && !data.countries.length && !data.stats.length) {
+          return options.guild ? '本群还没有可导出的数据' : '你还没有可导出的数据'
+        }
+
+        const content = formatExportData(data, exportFormat)
+        const date = new Date().toISOString().slice(0, 10)
+        const title = `pig-${options.guild ? `guild-${guildId}` : userId}-${date}.${exportFormat}`
+        return h.file(Buffer.from(content, 'utf8'), getExportMimeType(exportFormat), { title })
+      } catch (e) {
+        ctx.logger('pig').error('Failed to export data:', e)
+        return `导出失败: ${e}`
+      }
+    })
+
+  // 删除个人数据（管理员可指定用户）
+  ctx.command('pig.forget [user:user]', '删除自己在所有群的全部数据（管理员可指定用户）')
+    .alias('删除数据')
+    .example('pig.forget')
+    .example('pig.forget @某人')
+    .action(async ({ session }, user) => {
+      let platform = session.platform
+      let userId = session.userId
+      if (user) {
+        ;[platform, userId] = user.split(':')
+      }
+      // 按 平台:用户ID 判断是否本人，不同平台的相同 ID 视为他人
+      const isSelf = platform === session.platform && userId === session.userId
+      if (!isSelf && !await isPigAdmin(ctx, config, session)) {
+        return '仅管理员可删除其他用户的数据'
+      }
+
+      const target = isSelf ? '你' : `${platform}:${userId} `
+      await session.send(`⚠️ 将删除${target}在所有群的旅行记录、作息统计、明信片、纪念品、徽章、家乡与隐私设置，且无法恢复。\n30 秒内回复「确认」继续。`)
+      const reply = await session.prompt(30000)
+      if (reply?.trim() !== '确认') return '已取消'
+
+      try {
+        const result = await forgetUser(ctx, config, platform, userId)
+        for (const identity of result.identities) {
+          const key = `${identity.platform}:${identity.userId}`
+          dailyUserState.delete(key)
+          travelLocks.delete(key)
+        }
+        return formatForgetResult(result)
+      } catch (e) {
+        ctx.logger('pig').error(`Failed to forget user ${platform}:${userId}:`, e)
+        return `删除数据失败: ${e}`
+      }
+    })
+
   // 群组背景图片设置（仅管理员可用）
   ctx.command('pig.bg', '设置/查看群组背景图片（仅管理员可用）')
     .option('reset', '-r 重置为默认背景')
@@ -626,22 +977,9 @@ export function apply(ctx: Context, config: Config) {
       }
 
       // 检查用户权限
-      // 1. Koishi authority >= 3 的用户
-      // 2. 群主 (owner) 或群管理员 (admin)
-      const user = await ctx.database.getUser(platform, userId, ['authority'])
-      const authority = user?.authority ?? 0
-      // 从多个可能的位置获取用户角色（不同适配器存放位置不同）
-      const memberRole = session.author?.roles?.[0]
-        || (session.event as any)?.member?.roles?.[0]
-        || (session.event as any)?.member?.role
-        || (session as any).onebot?.sender?.role
-      const isGuildAdmin = memberRole === 'owner' || memberRole === 'admin'
+      const isAdmin = await isPigAdmin(ctx, config, session)
 
-      if (config.debug) {
-        ctx.logger('pig').debug(`pig.bg permission check: userId=${userId}, authority=${authority}, memberRole=${memberRole}, isGuildAdmin=${isGuildAdmin}`)
-      }
-
-      if (authority < 3 && !isGuildAdmin) {
+      if (!isAdmin) {
         // 普通用户只能查看当前背景
         const bgInfo = await getGuildBackgroundInfo(ctx, platform, guildId)
         if (bgInfo?.backgroundImage) {
@@ -770,18 +1108,273 @@ export function apply(ctx: Context, config: Config) {
       }
     }) 
 
+  // 群组目的地主题与地区过滤（仅管理员可修改）
+  ctx.command('pig.region', '设置/查看本群目的地主题与地区过滤')
+    .alias('目的地主题')
+    .option('continents', '-c <continents:string> 允许的大洲（逗号分隔，如 亚洲,欧洲；填 all 不限）')
+    .option('allow', '-a <countries:string> 仅允许这些国家（逗号分隔）')
+    .option('block', '-b <countries:string> 屏蔽这些国家（逗号分隔）')
+    .option('context', '-x <context:text> 本群 LLM 地点生成上下文（填 none 清除）')
+    .option('reset', '-r 重置为不限制')
+    .example('pig.region -c 亚洲,欧洲 -b 日本')
+    .action(async ({ session, options }) => {
+      const { platform, guildId } = session
+      if (!guildId) return '请在群组中使用此命令'
+
+      const formatCurrent = (filter?: GuildRegionFilter) => {
+        const lines = describeRegionFilter(filter)
+        if (filter?.llmContext) lines.push(`LLM 上下文：${filter.llmContext}`)
+        return lines.length ? `本群目的地设置：\n${lines.join('\n')}` : '本群目的地不限制地区'
+      }
+
+      const hasChanges = options.reset || options.continents !== undefined || options.allow !== undefined
+        || options.block !== undefined || options.context !== undefined
+      if (!hasChanges) {
+        return formatCurrent(await getGuildRegionFilter(ctx, platform, guildId))
+      }
+
+      if (!await isPigAdmin(ctx, config, session)) return '仅管理员可修改本群目的地设置'
+
+      if (options.reset) {
+        await resetGuildRegionFilter(ctx, platform, guildId)
+        return '已重置本群目的地设置，不再限制地区'
+      }
+
+      if (options.allow !== undefined && options.block !== undefined) {
+        return '-a 与 -b 不能同时使用'
+      }
+
+      const splitList = (value: string) => value.split(/[,，、\s]+/).map(item => item.trim()).filter(Boolean)
+      const patch: Partial<GuildRegionFilter> = {}
+
+      if (options.continents !== undefined) {
+        const items = splitList(options.continents)
+        if (items.length === 1 && items[0].toLowerCase() === 'all') {
+          patch.allowedContinents = []
+        } else {
+          const codes: ContinentCode[] = []
+          for (const item of items) {
+            const code = parseContinent(item)
+            if (!code) return `无法识别的大洲：${item}`
+            if (!codes.includes(code)) codes.push(code)
+          }
+          patch.allowedContinents = codes
+        }
+      }
+
+      const countryList = options.allow ?? options.block
+      if (countryList !== undefined) {
+        const codes: string[] = []
+        for (const item of splitList(countryList)) {
+          const code = parseCountryISOCode(item)
+          if (!code) return `无法识别的国家：${item}`
+          if (!codes.includes(code)) codes.push(code)
+        }
+        patch.countryFilterMode = codes.length ? (options.allow !== undefined ? 'allow' : 'block') : ''
+        patch.countryFilter = codes
+      }
+
+      if (options.context !== undefined) {
+        patch.llmContext = options.context.trim().toLowerCase() === 'none' ? '' : options.context.trim()
+      }
+
+      await setGuildRegionFilter(ctx, platform, guildId, patch)
+      return `已更新。${formatCurrent(await getGuildRegionFilter(ctx, platform, guildId))}`
+    })
+
+  // 群级配置覆盖
+  ctx.command('pig.config [action:string] [key:string] [value:text]', '查看/修改本群配置覆盖（修改仅管理员可用）')
+    .alias('猪配置')
+    .usage('pig.config get [配置项] / pig.config set <配置项> <值> / pig.config reset [配置项]')
+    .example('pig.config get')
+    .example('pig.config set outputMode text')
+    .example('pig.config set nightOwlStartHour 1')
+    .example('pig.config reset outputMode')
+    .action(async ({ session }, action, key, value) => {
+      const { platform, guildId } = session
+      if (!guildId) return '请在群组中使用此命令'
+
+      const mode = (action || 'get').toLowerCase()
+      if (mode !== 'get' && mode !== 'set' && mode !== 'reset') {
+        return '用法：pig.config get [配置项] / pig.config set <配置项> <值> / pig.config reset [配置项]'
+      }
+      if (key && !isGuildConfigKey(key)) {
+        return `不支持按群覆盖的配置项：${key}\n可用配置项：${Object.keys(GUILD_CONFIG_KEYS).join(', ')}`
+      }
+
+      if (mode === 'get') {
+        const overrides = await getGuildConfigOverrides(ctx, platform, guildId)
+        const effective = await resolveGuildConfig(ctx, config, platform, guildId)
+        const describe = (name: string) => {
+          const source = name in overrides ? `本群覆盖，全局为 ${formatGuildConfigValue(config[name])}` : '全局配置'
+          return `${name}（${GUILD_CONFIG_KEYS[name].description}）= ${formatGuildConfigValue(effective[name])}（${source}）`
+        }
+        if (key) return describe(key)
+        const names = Object.keys(overrides)
+        return names.length
+          ? [`本群已覆盖 ${names.length} 项配置：`, ...names.map(describe)].join('\n')
+          : `本群使用全局配置\n可覆盖的配置项：${Object.keys(GUILD_CONFIG_KEYS).join(', ')}`
+      }
+
+      if (!await isPigAdmin(ctx, config, session)) return '仅管理员可修改本群配置'
+
+      if (mode === 'reset') {
+        await resetGuildConfigOverride(ctx, platform, guildId, key)
+        return key ? `已恢复 ${key} 为全局配置` : '已清除本群全部配置覆盖'
+      }
+
+      if (!key || value === undefined) return '用法：pig.config set <配置项> <值>'
+      let parsed: unknown
+      try {
+        parsed = parseGuildConfigValue(key, value)
+      } catch (e) {
+        return e instanceof Error ? e.message : String(e)
+      }
+
+      await setGuildConfigOverride(ctx, platform, guildId, key, parsed)
+      return `已将本群 ${key} 设置为 ${formatGuildConfigValue(parsed)}`
+    })
+
+  // 月报订阅
+  ctx.command('pig.subscribe [action:string] [value:string]', '查看/修改本群月度旅行手账推送（修改仅管理员可用）')
+    .alias('月报订阅')
+    .usage('pig.subscribe / pig.subscribe on|off / pig.subscribe personal on|off')
+    .example('pig.subscribe on')
+    .example('pig.subscribe personal on')
+    .action(async ({ session }, action, value) => {
+      const { platform, guildId } = session
+      if (!guildId) return '请在群组中使用此命令'
+
+      if (!action) {
+        if (!config.monthlySummaryEnabled) return '月度总结推送未开启（monthlySummaryEnabled）'
+        const subscription = await getGuildSubscription(ctx, platform, guildId)
+        if (!subscription) return '本群尚未订阅月度旅行手账，群内首次旅行后会自动订阅，管理员也可使用 pig.subscribe on'
+        return [
+          `月度旅行手账：${subscription.enabled ? '✅ 已订阅' : '⬜ 已关闭'}`,
+          `推送频道：${subscription.channelId}`,
+          `成员个人卡片：${subscription.personalCards ? '✅ 开启' : '⬜ 关闭'}`,
+        ].join('\n')
+      }
+
+      const mode = action.toLowerCase()
+      const parseSwitch = (input?: string) => {
+        const text = (input || '').toLowerCase()
+        if (text === 'on' || text === '开') return true
+        if (text === 'off' || text === '关') return false
+        return null
+      }
+      const enabled = mode === 'personal' ? parseSwitch(value) : parseSwitch(mode)
+      if (enabled === null) return '用法：pig.subscribe on|off / pig.subscribe personal on|off'
+
+      if (!await isPigAdmin(ctx, config, session)) return '仅管理员可修改本群订阅'
+
+      const target = { platform, guildId, channelId: session.channelId, selfId: session.selfId }
+      if (mode === 'personal') {
+        await setGuildSubscription(ctx, config, target, { personalCards: enabled })
+        return enabled ? '已开启成员个人月报卡片' : '已关闭成员个人月报卡片，仅推送群合照'
+      }
+      await setGuildSubscription(ctx, config, target, { enabled })
+      return enabled ? '已订阅月度旅行手账，每月 1 日推送到当前频道' : '已取消本群的月度旅行手账推送'
+    })
+
+  // 自定义地点包
+  ctx.command('pig.loc', '管理自定义地点包')
+    .alias('地点包')
+    .action(({ session }) => session.execute('help pig.loc'))
+
+  // 地点包对所有群生效，增删改仅限全局管理员（authority >= 3）
+  ctx.command('pig.loc.import <name:string> [url:string]', '导入地点包（附带 JSON/YAML 文件或填写 URL，仅全局管理员可用）')
+    .example('pig.loc.import anime https://example.com/anime.yaml')
+    .action(async ({ session }, name, url) => {
+      if (!await isPigOwner(ctx, session)) return '地点包对所有群生效，仅全局管理员（权限等级 3 以上）可导入'
+      if (!name || !isValidPackName(name)) return '请提供地点包名称（1-32 位字母、数字、中文、下划线或连字符）'
+
+      const fileElement = h.select(session.elements || [], 'file')[0]
+      const fileSource = fileElement?.attrs?.src || fileElement?.attrs?.url
+      const source = fileSource || url
+      if (!source || !/^https?:\/\//i.test(source)) {
+        return '请附带 JSON/YAML 地点包文件，或提供以 http(s) 开头的 URL'
+      }
+
+      try {
+        // 附件地址由适配器提供；手动填写的 URL 需校验主机，且不跟随重定向
+        if (!fileSource) await assertPublicPackUrl(source)
+        const content = await ctx.http.get<string>(source, {
+          responseType: 'text',
+          timeout: 30000,
+          ...(fileSource ? {} : { redirect: 'error' as const }),
+        })
+        const result = await importLocationPack(ctx, name, content, session.userId)
+        const errorText = result.errors.length ? `\n以下条目校验失败已跳过：\n${result.errors.join('\n')}` : ''
+        if (!result.imported) return `地点包 ${name} 中没有有效地点，导入已取消${errorText}`
+        return `地点包 ${name} 已导入 ${result.imported} 个地点${errorText}`
+      } catch (e) {
+        ctx.logger('pig').warn(`Failed to import location pack ${name}: ${e}`)
+        return `导入地点包失败: ${e instanceof Error ? e.message : e}`
+      }
+    })
+
+  ctx.command('pig.loc.list', '查看已导入的地点包')
+    .action(async () => {
+      const packs = await listLocationPacks(ctx)
+      if (!packs.length) return '还没有导入任何地点包'
+      return ['已导入的地点包：', ...packs.map(pack =>
+        `${pack.enabled ? '✅' : '⏸️'} ${pack.name}（${pack.count} 个地点）${pack.description ? ` - ${pack.description}` : ''}`
+      )].join('\n')
+    })
+
+  ctx.command('pig.loc.remove <name:string>', '删除地点包（仅全局管理员可用）')
+    .action(async ({ session }, name) => {
+      if (!await isPigOwner(ctx, session)) return '地点包对所有群生效，仅全局管理员（权限等级 3 以上）可删除'
+      if (!name) return '请提供地点包名称'
+      return await removeLocationPack(ctx, name) ? `地点包 ${name} 已删除` : `地点包 ${name} 不存在`
+    })
+
+  ctx.command('pig.loc.enable <name:string>', '启用地点包（仅全局管理员可用）')
+    .action(async ({ session }, name) => {
+      if (!await isPigOwner(ctx, session)) return '地点包对所有群生效，仅全局管理员（权限等级 3 以上）可启用'
+      if (!name) return '请提供地点包名称'
+      return await setLocationPackEnabled(ctx, name, true) ? `地点包 ${name} 已启用` : `地点包 ${name} 不存在`
+    })
+
+  ctx.command('pig.loc.disable <name:string>', '停用地点包（仅全局管理员可用）')
+    .action(async ({ session }, name) => {
+      if (!await isPigOwner(ctx, session)) return '地点包对所有群生效，仅全局管理员（权限等级 3 以上）可停用'
+      if (!name) return '请提供地点包名称'
+      return await setLocationPackEnabled(ctx, name, false) ? `地点包 ${name} 已停用` : `地点包 ${name} 不存在`
+    })
+
+  ctx.command('pig.loc.export <name:string>', '导出地点包文件')
+    .option('yaml', '-y 导出为 YAML')
+    .action(async ({ options }, name) => {
+      if (!name) return '请提供地点包名称'
+      const format = options.yaml ? 'yaml' : 'json'
+      const content = await exportLocationPack(ctx, name, format)
+      if (content === null) return `地点包 ${name} 不存在`
+      const mime = format === 'yaml' ? 'application/yaml' : 'application/json'
+      return h.file(Buffer.from(content, 'utf8'), mime, { title: `${name}.${format === 'yaml' ? 'yaml' : 'json'}` })
+    })
+
   // 后台静默记录：日出后首条消息
   ctx.middleware(async (session, next) => {
-    if (!config.silentRecordEnabled) return next()
     if (!session.userId || !session.guildId) return next()
+    const guildConfig = await getSessionConfig(session)
+    if (!guildConfig.silentRecordEnabled) return next()
 
     const userKey = `${session.platform}:${session.userId}`
     const state = dailyUserState.get(userKey)
     if (state?.recordedToday) return next()
 
+    const privacy = await getUserPrivacy(ctx, session.platform, session.userId)
+    if (privacy.noStats) return next()
+
     let sunrise: Date
     try {
-      sunrise = await getTodaySunrise()
+      // 设置了家乡的用户按家乡坐标计算日出
+      const home = await getUserHome(ctx, session.platform, session.userId)
+      const lat = home?.latitude ?? guildConfig.defaultLat
+      const lng = home?.longitude ?? guildConfig.defaultLng
+      sunrise = (await getSunriseInfo(ctx, guildConfig, lat, lng)).sunrise
     } catch (e) {
       ctx.logger('pig').warn(`Failed to fetch sunrise info: ${e}`)
       return next()
@@ -790,26 +1383,42 @@ export function apply(ctx: Context, config: Config) {
     const now = new Date()
     if (now < sunrise) return next()
 
+    let streakIncreased = false
     try {
+      const [userState] = await ctx.database.get('pig_user_state', {
+        platform: session.platform,
+        userId: session.userId,
+        guildId: session.guildId || '',
+      }, ['earlyRiserStreak', 'lastEarlyRiseDate'])
+      const timezone = await getUserTimezone(ctx, guildConfig, session.platform, session.userId)
+      const earlyRiser = getEarlyRiserUpdate(userState, now, sunrise, timezone)
+      streakIncreased = earlyRiser.earlyRiserStreak > (userState?.earlyRiserStreak ?? 0)
+
       await ctx.database.upsert('pig_user_state', [{
         platform: session.platform,
         userId: session.userId,
         guildId: session.guildId || '',
         lastWakeUp: now,
         lastSunrise: sunrise,
+        ...earlyRiser,
       }], ['platform', 'userId', 'guildId'])
     } catch (e) {
       ctx.logger('pig').warn(`Failed to record wake-up time for ${session.userId}: ${e}`)
       return next()
     }
 
+    // 早起连续天数增加时检查成就
+    if (streakIncreased) {
+      void announceAchievements(session)
+    }
+
     dailyUserState.set(userKey, {
       recordedToday: true,
       cardSentToday: state?.cardSentToday ?? false,
       lastSunrise: sunrise,
     })
 
-    if (config.silentRecordAutoTravel && !state?.cardSentToday) {
+    if (guildConfig.silentRecordAutoTravel && !privacy.noAutoTravel && !state?.cardSentToday) {
       const latestState = dailyUserState.get(userKey)
       if (latestState) latestState.cardSentToday = true
 
@@ -819,8 +1428,9 @@ export function apply(ctx: Context, config: Config) {
         avatarUrl: session.author?.avatar || ''
       }
 
-      void triggerTravelSequence(ctx, config, userInfo, session.platform, session.guildId || '')
-        .then(result => session.send(formatTravelMessage(result, session.userId, config)))
+      rememberSubscription(session)
+      void triggerTravelSequence(ctx, guildConfig, userInfo, session.platform, session.guildId || '')
+        .then(result => session.send(formatTravelMessage(result, session.userId, guildConfig)))
         .catch(err => ctx.logger('pig').warn(`Failed to auto travel for ${session.userId}: ${err}`))
     }
 
@@ -829,13 +1439,18 @@ export function apply(ctx: Context, config: Config) {
 
   ctx.middleware(async (session, next) => {
     // 如果没有开启实验性自动检测功能，直接跳过
-    if (!config.experimentalAutoDetect) return next()
-    if (config.experimentalAutoDetectScope !== 'all' && !session.guildId) return next()
+    const guildConfig = await getSessionConfig(session)
+    if (guildConfig.experimentalAutoDetectScope !== 'all' && !session.guildId) return next()
+    if (!guildConfig.experimentalAutoDetect) return next()
 
     const hasContent = !!session.content
     const hasElements = Array.isArray(session.elements) && session.elements.length > 0
     if (!session.userId || (!hasContent && !hasElements)) return next()
 
+    // 关闭统计或自动旅行的用户不做作息异常检测
+    const privacy = await getUserPrivacy(ctx, session.platform, session.userId)
+    if (privacy.noStats || privacy.noAutoTravel) return next()
+
     const lockKey = `${session.platform}:${session.userId}`
     const now = Date.now()
 
@@ -855,11 +1470,12 @@ export function apply(ctx: Context, config: Config) {
       guildId: session.guildId || '',
     })
 
-    const lat = userState?.latitude ?? config.defaultLat
-    const lng = userState?.longitude ?? config.defaultLng
+    const home = await getUserHome(ctx, session.platform, session.userId)
+    const lat = home?.latitude ?? guildConfig.defaultLat
+    const lng = home?.longitude ?? guildConfig.defaultLng
 
     try {
-      const sunriseInfo = await getSunriseInfo(ctx, lat, lng)
+      const sunriseInfo = await getSunriseInfo(ctx, guildConfig, lat, lng)
       const dayStart = new Date(sunriseInfo.sunrise.getTime() - 2 * 60 * 60 * 1000) // 2 hours before sunrise
 
       if (nowDate >= dayStart && (!userState?.lastWakeUp || userState.lastWakeUp < dayStart)) {
@@ -877,7 +1493,8 @@ export function apply(ctx: Context, config: Config) {
         if (userState?.lastWakeUp) {
           const diffHours = Math.abs((nowDate.getTime() - userState.lastWakeUp.getTime() - 24 * 60 * 60 * 1000) / (1000 * 60 * 60))
 
-          if (diffHours > config.abnormalThreshold) {
+          // 全局未开启自动检测时 Schema 不会填充阈值，群级开启时使用默认 3 小时
+          if (diffHours > (guildConfig.abnormalThreshold ?? 3)) {
             // 设置锁定，防止重复触发
             travelLocks.set(lockKey, now)
 
@@ -898,8 +1515,9 @@ export function apply(ctx: Context, config: Config) {
               avatarUrl: session.author?.avatar || ''
             }
 
-            const result = await triggerTravelSequence(ctx, config, userInfo, session.platform, session.guildId || '')
-            await session.send(formatTravelMessage(result, session.userId, config))
+            rememberSubscription(session)
+            const result = await triggerTravelSequence(ctx, guildConfig, userInfo, session.platform, session.guildId || '')
+            await session.send(formatTravelMessage(result, session.userId, guildConfig))
           }
         }
       }
@@ -916,8 +1534,14 @@ export function apply(ctx: Context, config: Config) {
     const hasElements = Array.isArray(session.elements) && session.elements.length > 0
     if (!session.userId || (!hasContent && !hasElements)) return next()
 
+    // 关闭统计的用户不记录消息与熬夜数据
+    if ((await getUserPrivacy(ctx, session.platform, session.userId)).noStats) return next()
+
+    // 按用户时区统计（家乡时区优先，否则使用默认时区）
     const now = new Date()
-    const currentHour = now.getHours()
+    const guildConfig = await getSessionConfig(session)
+    const timezone = await getUserTimezone(ctx, guildConfig, session.platform, session.userId)
+    const currentHour = getLocalHour(timezone, now)
 
     // 获取用户状态
     const [userState] = await ctx.database.get('pig_user_state', {
@@ -939,8 +1563,8 @@ export function apply(ctx: Context, config: Config) {
     hourlyCounts[hourKey] = (hourlyCounts[hourKey] || 0) + 1
 
     // 检查是否在熬夜时段
-    const startHour = config.nightOwlStartHour ?? 0
-    const endHour = config.nightOwlEndHour ?? 5
+    const startHour = guildConfig.nightOwlStartHour ?? 0
+    const endHour = guildConfig.nightOwlEndHour ?? 5
 
     let isNightOwlTime = false
     if (startHour <= endHour) {
@@ -959,17 +1583,11 @@ export function apply(ctx: Context, config: Config) {
       hourlyMessageCounts: JSON.stringify(hourlyCounts),
     }
 
-    // 如果开启熬夜检测且在熬夜时段
-    if (config.nightOwlEnabled && isNightOwlTime) {
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    // 如果开启熬夜检测且在熬夜时段（每个用户当地日期只记一次）
+    if (guildConfig.nightOwlEnabled && isNightOwlTime) {
       const lastNightOwlDate = userState?.lastNightOwlDate
-
-      let alreadyRecordedToday = false
-      if (lastNightOwlDate) {
-        const lastDate = new Date(lastNightOwlDate)
-        const lastDateOnly = new Date(lastDate.getFullYear(), lastDate.getMonth(), lastDate.getDate())
-        alreadyRecordedToday = lastDateOnly.getTime() === today.getTime()
-      }
+      const alreadyRecordedToday = !!lastNightOwlDate
+        && getLocalDateKey(timezone, new Date(lastNightOwlDate)) === getLocalDateKey(timezone, now)
 
       if (!alreadyRecordedToday) {
         updateData.nightOwlCount = (userState?.nightOwlCount ?? 0) + 1
@@ -983,27 +1601,41 @@ export function apply(ctx: Context, config: Config) {
 
     await ctx.database.upsert('pig_user_state', [updateData], ['platform', 'userId', 'guildId'])
 
+    // 熬夜天数增加时检查成就
+    if (updateData.nightOwlCount) {
+      void announceAchievements(session)
+    }
+
     return next()
   })
 
   // 每日重置静默记录状态
   ctx.cron('1 0 * * *', () => {
     dailyUserState.clear()
-    cachedSunrise = null
-    cachedSunriseDate = null
     ctx.logger('pig').info('Daily user state cache cleared')
   })
 
+  // 插件重载后重新从数据库读取家乡与群配置
+  ctx.on('dispose', clearHomeCache)
+  ctx.on('dispose', clearGuildConfigCache)
+  ctx.on('dispose', clearPrivacyCache)
+
+  // LLM 预生成地点池：启动时与定时补充
+  if (config.llmLocationEnabled && config.llmPoolEnabled) {
+    const refillPool = () => refillLocationPool(ctx, config).catch(e => {
+      ctx.logger('pig').warn(`Location pool refill failed: ${e}`)
+    })
+    ctx.on('ready', refillPool)
+    ctx.cron(config.llmPoolRefillCron || '*/30 * * * *', refillPool)
+    ctx.on('dispose', clearLocationPool)
+  }
+
   // Monthly Travel Handbook - 每月1日凌晨生成上月总结
   if (config.monthlySummaryEnabled) {
     // 使用每日检查避免跨月间隔超出 setTimeout 上限
     ctx.cron('5 0 * * *', async () => {
       const now = new Date()
       if (now.getDate() !== 1) return
-      if (config.monthlySummaryScope === 'guild') {
-        ctx.logger('pig').warn('Monthly summary scope is guild, but cron has no guild context. Skipping...')
-        return
-      }
 
       // 计算上个月
       let year = now.getFullYear()
@@ -1013,39 +1645,25 @@ export function apply(ctx: Context, config: Config) {
         month = 12
       }
 
-      ctx.logger('pig').info(`Generating monthly travel handbook for ${year}/${month}...`)
+      ctx.logger('pig').info(`Delivering monthly travel handbook for ${year}/${month}...`)
 
       try {
-        const users = await getUsersWithLogsInMonth(ctx, year, month)
-
-        if (users.length === 0) {
-          ctx.logger('pig').info(`No travel logs found for ${year}/${month}`)
+        const subscriptions = await ctx.database.get('pig_subscription', { enabled: true })
+        if (!subscriptions.length) {
+          ctx.logger('pig').info('No guild subscriptions, skipping monthly handbook')
           return
         }
 
-        ctx.logger('pig').info(`Found ${users.length} users with travel logs for ${year}/${month}`)
-
-        for (const { userId, platform } of users) {
+        let delivered = 0
+        for (const subscription of subscriptions) {
           try {
-            const summaryData = await prepareMonthlySummary(
-              ctx,
-              userId,
-              platform,
-              userId,
-              '',
-              year,
-              month
-            )
-            await generateMonthlySummaryCard(ctx, config, summaryData)
-            ctx.logger('pig').info(`Generated summary for user ${userId}`)
-
-            // TODO: 发送到对应群组（需要记录用户所在群组的机制）
+            if (await deliverMonthlySummary(ctx, config, subscription, year, month)) delivered++
           } catch (e) {
-            ctx.logger('pig').error(`Failed to generate summary for user ${userId}:`, e)
+            ctx.logger('pig').error(`Failed to deliver monthly summary to ${subscription.platform}:${subscription.guildId}:`, e)
           }
         }
 
-        ctx.logger('pig').info(`Monthly handbook generation completed for ${year}/${month}`)
+        ctx.logger('pig').info(`Monthly handbook delivered to ${delivered}/${subscriptions.length} guilds for ${year}/${month}`)
       } catch (e) {
         ctx.logger('pig').error('Failed to generate monthly travel handbook:', e)
       }
@@ -1062,12 +1680,24 @@ export function apply(ctx: Context, config: Config) {
     ctx.logger('pig').info(`Cleaning up travel logs older than ${config.logRetentionDays} days (before ${cutoffDate.toISOString()})...`)
 
     try {
-      const result = await ctx.database.remove('pig_travel_log', {
-        timestamp: { $lt: cutoffDate }
+      // 删除前先把尚未汇总的记录计入终身统计
+      const folded = await foldPendingTravelLogs(ctx, cutoffDate)
+      if (folded) {
+        ctx.logger('pig').info(`Folded ${folded} travel logs into lifetime country stats`)
+      }
+      await ctx.database.remove('pig_travel_log', {
+        timestamp: { $lt: cutoffDate },
+        aggregated: true,
       })
       ctx.logger('pig').info(`Cleaned up old travel logs`)
     } catch (e) {
       ctx.logger('pig').error('Failed to cleanup old travel logs:', e)
     }
+
+    try {
+      await cleanupUsage(ctx)
+    } catch (e) {
+      ctx.logger('pig').error('Failed to cleanup usage counters:', e)
+    }
   })
 }
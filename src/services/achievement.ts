@@ -0,0 +1,453 @@
+import { Context } from 'koishi'
+import { AchievementMetric, AchievementRule, Config } from '../config'
+import { PigUserState } from '../database'
+import { formatDistanceKm } from '../utils/geo'
+import { getLocalDateKey } from '../utils/timezone'
+import { getCountryStats, sumCountryStats } from './countryStat'
+import { SOUVENIRS } from './souvenir'
+
+export type AchievementStats = Record<AchievementMetric, number>
+
+export interface BadgeItem {
+  rule: AchievementRule
+  unlockedAt: Date | null
+  progress: number
+}
+
+export interface BadgeCardData {
+  userId: string
+  username: string
+  avatarUrl: string
+  items: BadgeItem[]
+  unlockedCount: number
+}
+
+// 日出后多久内首次发言算早起
+const EARLY_RISER_WINDOW_MS = 2 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 内置成就（管理员可在配置中追加或按 ID 覆盖）
+export const BUILTIN_ACHIEVEMENTS: AchievementRule[] = [
+  { id: 'first-trip', name: '初次出发', description: '完成第一次旅行', icon: '🐷', metric: 'trips', threshold: 1 },
+  { id: 'trips-100', name: '百次飞行', description: '累计旅行 100 次', icon: '✈️', metric: 'trips', threshold: 100 },
+  { id: 'countries-10', name: '十国旅人', description: '去过 10 个国家', icon: '🗺️', metric: 'countries', threshold: 10 },
+  { id: 'countries-50', name: '半百之国', description: '去过 50 个国家', icon: '🌍', metric: 'countries', threshold: 50 },
+  { id: 'all-continents', name: '六洲足迹', description: '在除南极洲外的每个大洲都旅行过', icon: '🧭', metric: 'continents', threshold: 6 },
+  { id: 'around-the-world', name: '环游地球', description: '累计飞行超过赤道周长', icon: '🌐', metric: 'distanceKm', threshold: 40075 },
+  { id: 'early-riser-7', name: '早起七日', description: '连续 7 天在日出后 2 小时内冒泡', icon: '🌅', metric: 'earlyRiserStreak', threshold: 7 },
+  { id: 'night-owl-30', name: '资深夜猫', description: '累计熬夜 30 个晚上', icon: '🦉', metric: 'nightOwlNights', threshold: 30 },
+  { id: 'souvenir-master', name: '纪念品大师', description: '集齐全部纪念品小猪', icon: '🎁', metric: 'souvenirs', threshold: SOUVENIRS.length },
+]
+
+/**
+ * 合并内置成就与配置中的自定义成就（同 ID 时自定义优先）
+ */
+export function getAchievementRules(config: Config): AchievementRule[] {
+  const rules = new Map(BUILTIN_ACHIEVEMENTS.map(rule => [rule.id, rule]))
+  for (const rule of config.achievementRules ?? []) {
+    if (!rule?.id || !rule.name) continue
+    rules.set(rule.id, { ...rule, icon: rule.icon || '🏅', threshold: Math.max(1, rule.threshold || 1) })
+  }
+  return [...rules.values()]
+}
+
+/**
+ * 汇总用户的成就统计指标（跨群）
+ */
+export async function getAchievementStats(ctx: Context, userId: string, platform: string): Promise<AchievementStats> {
+  // 旅行相关指标读取终身统计，不受旅行日志清理影响
+  const countryStats = await getCountryStats(ctx, platform, { userId })
+  const totals = sumCountryStats(countryStats)
+  const states = await ctx.database.get('pig_user_state', { userId, platform }, ['nightOwlCount', 'earlyRiserStreak'])
+  const souvenirs = await ctx.database.get('pig_souvenir', { userId, platform }, ['id'])
+
+  return {
+    trips: totals.tripCount,
+    countries: new Set(countryStats.map(stat => stat.countryKey)).size,
+    continents: new Set(countryStats.map(stat => stat.continent).filter(Boolean)).size,
+    distanceKm: totals.totalDistanceKm,
+    // 熬夜与早起按群分别记录，取最高的一条
+    nightOwlNights: Math.max(0, ...states.map(state => state.nightOwlCount ?? 0)),
+    earlyRiserStreak: Math.max(0, ...states.map(state => state.earlyRiserStreak ?? 0)),
+    souvenirs: souvenirs.length,
+  }
+}
+
+/**
+ * 检查并持久化新解锁的成就，返回本次解锁的成就列表
+ */
+export async function evaluateAchievements(
+  ctx: Context,
+  config: Config,
+  userId: string,
+  platform: string,
+  guildId: string = ''
+): Promise<AchievementRule[]> {
+  if (!(config.achievementEnabled ?? true)) return []
+
+  const owned = new Set((await ctx.database.get('pig_badge', { userId, platform }, ['badgeId'])).map(badge => badge.badgeId))
+  const pending = getAchievementRules(config).filter(rule => !owned.has(rule.id))
+  if (!pending.length) return []
+
+  const stats = await getAchievementStats(ctx, userId, platform)
+  const unlocked = pending.filter(rule => (stats[rule.metric] ?? 0) >= rule.threshold)
+  if (!unlocked.length) return []
+
+  const now = new Date()
+  await ctx.database.upsert('pig_badge', unlocked.map(rule => ({
+    userId,
+    platform,
+    badgeId: rule.id,
+    guildId,
+    unlockedAt: now,
+  })), ['platform', 'userId', 'badgeId'])
+
+  if (config.debug) {
+    ctx.logger('pig').debug(`用户 ${userId} 解锁成就: ${unlocked.map(rule => rule.id).join(', ')}`)
+  }
+  return unlocked
+}
+
+export function formatBadgeUnlock(rules: AchievementRule[]): string {
+  return `🏅 解锁成就：${rules.map(rule => `${rule.icon} ${rule.name}`).join('、')}`
+}
+
+/**
+ * 根据本次首次发言时间计算早起连续天数的更新字段
+ * 非早起会中断连续记录；同一天内重复调用不会重复累计；日期按用户时区划分
+ */
+export function getEarlyRiserUpdate(
+  state: Pick<PigUserState, 'earlyRiserStreak' | 'lastEarlyRiseDate'> | undefined,
+  now: Date,
+  sunrise: Date,
+  timezone: string
+): Pick<PigUserState, 'earlyRiserStreak' | 'lastEarlyRiseDate'> {
+  const streak = state?.earlyRiserStreak ?? 0
+  if (now.getTime() - sunrise.getTime() > EARLY_RISER_WINDOW_MS) {
+    return { earlyRiserStreak: 0, lastEarlyRiseDate: state?.lastEarlyRiseDate }
+  }
+
+  const today = getLocalDateKey(timezone, now)
+  const lastDay = state?.lastEarlyRiseDate ? getLocalDateKey(timezone, new Date(state.lastEarlyRiseDate)) : null
+
+  if (lastDay === today) {
+    return { earlyRiserStreak: Math.max(1, streak), lastEarlyRiseDate: state.lastEarlyRiseDate }
+  }
+  // 日期键按 UTC 解析后相差一天即为连续
+  const yesterday = new Date(Date.parse(`${today}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10)
+  const continued = lastDay === yesterday
+  return { earlyRiserStreak: continued ? streak + 1 : 1, lastEarlyRiseDate: now }
+}
+
+/**
+ * 准备成就卡片数据（已解锁在前，未解锁按进度排序）
+ */
+export async function prepareBadgeCardData(
+  ctx: Context,
+  config: Config,
+  userId: string,
+  platform: string,
+  username: string,
+  avatarUrl: string
+): Promise<BadgeCardData> {
+  const badges = await ctx.database.get('pig_badge', { userId, platform })
+  const unlockedAt = new Map(badges.map(badge => [badge.badgeId, badge.unlockedAt]))
+  const stats = await getAchievementStats(ctx, userId, platform)
+
+  const items = getAchievementRules(config)
+    .map(rule => ({
+      rule,
+      unlockedAt: unlockedAt.get(rule.id) ?? null,
+      progress: Math.min(1, (stats[rule.metric] ?? 0) / rule.threshold),
+    }))
+    .sort((a, b) => {
+      if (a.unlockedAt && b.unlockedAt) return new Date(a.unlockedAt).getTime() - new Date(b.unlockedAt).getTime()
+      if (a.unlockedAt || b.unlockedAt) return a.unlockedAt ? -1 : 1
+      return b.progress - a.progress
+    })
+
+  return {
+    userId,
+    username,
+    avatarUrl,
+    items,
+    unlockedCount: items.filter(item => item.unlockedAt).length,
+  }
+}
+
+function formatThreshold(rule: AchievementRule): string {
+  return rule.metric === 'distanceKm' ? `${formatDistanceKm(rule.threshold)} km` : `${rule.threshold}`
+}
+
+/**
+ * 生成成就徽章卡片
+ */
+export async function generateBadgeCard(
+  ctx: Context,
+  config: Config,
+  data: BadgeCardData
+): Promise<{ buffer: Buffer; filename: string }> {
+  const formatDate = (date: Date) => {
+    const d = new Date(date)
+    return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')}.${String(d.getDate()).padStart(2, '0')}`
+  }
+
+  const tilesHtml = data.items.map(({ rule, unlockedAt, progress }) => `
+    <div class="tile ${unlockedAt ? 'unlocked' : 'locked'}">
+      <div class="tile-icon">${escapeHtml(rule.icon)}</div>
+      <div class="tile-name">${escapeHtml(rule.name)}</div>
+      <div class="tile-desc">${escapeHtml(rule.description || formatThreshold(rule))}</div>
+      ${unlockedAt
+        ? `<div class="tile-date">${formatDate(unlockedAt)}</div>`
+        : `<div class="tile-progress"><div class="tile-progress-bar" style="width: ${Math.round(progress * 100)}%"></div></div>`}
+    </div>
+  `).join('')
+
+  const username = escapeHtml(data.username || data.userId)
+  const avatarUrl = data.avatarUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(username.charAt(0) || 'U')}&background=333&color=fff`
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+  @import url('https://fonts.googleapis.com/css2?family=Noto+Serif+SC:wght@400;700;900&family=Noto+Sans+SC:wght@300;400;700&display=swap');
+
+  * {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+  }
+
+  body {
+    width: 800px;
+    font-family: "Noto Sans SC", sans-serif;
+    background-color: #F7F5F2; /* 纸张米色 */
+    color: #1A1A1A;
+  }
+
+  .container {
+    padding: 60px;
+    position: relative;
+    overflow: hidden;
+  }
+
+  .header {
+    border-bottom: 4px solid #1A1A1A;
+    padding-bottom: 20px;
+    margin-bottom: 32px;
+    display: flex;
+    justify-content: space-between;
+    align-items: flex-end;
+  }
+
+  .main-title {
+    font-family: "Noto Serif SC", serif;
+    font-size: 72px;
+    font-weight: 900;
+    line-height: 0.9;
+    letter-spacing: -3px;
+  }
+
+  .sub-title {
+    font-size: 18px;
+    text-transform: uppercase;
+    letter-spacing: 6px;
+    margin-top: 10px;
+    font-weight: 700;
+    color: #666;
+  }
+
+  .profile {
+    display: flex;
+    align-items: center;
+    gap: 16px;
+  }
+
+  .avatar {
+    width: 72px;
+    height: 72px;
+    border-radius: 50%;
+    border: 2px solid #1A1A1A;
+    object-fit: cover;
+  }
+
+  .profile-name {
+    font-size: 22px;
+    font-weight: 700;
+    max-width: 220px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .profile-progress {
+    font-size: 16px;
+    color: #666;
+    letter-spacing: 2px;
+  }
+
+  .grid {
+    display: grid;
+    grid-template-columns: repeat(3, 1fr);
+    gap: 20px;
+  }
+
+  .tile {
+    background: #fff;
+    border: 2px solid #1A1A1A;
+    padding: 22px 16px 18px;
+    text-align: center;
+    box-shadow: 6px 6px 0 rgba(0,0,0,0.08);
+  }
+
+  .tile.locked {
+    background: #EFEDEA;
+    border-style: dashed;
+    box-shadow: none;
+  }
+
+  .tile.locked .tile-icon {
+    filter: grayscale(100%);
+    opacity: 0.35;
+  }
+
+  .tile-icon {
+    font-size: 56px;
+    line-height: 1.2;
+    margin-bottom: 8px;
+  }
+
+  .tile-name {
+    font-family: "Noto Serif SC", serif;
+    font-size: 22px;
+    font-weight: 700;
+  }
+
+  .tile-desc {
+    margin-top: 6px;
+    font-size: 14px;
+    color: #666;
+    min-height: 40px;
+  }
+
+  .tile-date {
+    margin-top: 10px;
+    font-size: 13px;
+    letter-spacing: 2px;
+    color: #254E58;
+    font-weight: 700;
+  }
+
+  .tile-progress {
+    margin-top: 14px;
+    height: 6px;
+    background: #D8D4CE;
+  }
+
+  .tile-progress-bar {
+    height: 100%;
+    background: #1A1A1A;
+  }
+
+  .footer {
+    margin-top: 40px;
+    padding-top: 16px;
+    border-top: 1px solid #1A1A1A;
+    display: flex;
+    justify-content: space-between;
+    font-size: 14px;
+    letter-spacing: 3px;
+    color: #666;
+  }
+</style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div>
+        <div class="main-title">BADGES</div>
+        <div class="sub-title">Achievements</div>
+      </div>
+      <div class="profile">
+        <img class="avatar" src="${avatarUrl}" onerror="this.src='https://ui-avatars.com/api/?name=U&background=333&color=fff'" />
+        <div>
+          <div class="profile-name">${username}</div>
+          <div class="profile-progress">${data.unlockedCount}/${data.items.length} UNLOCKED</div>
+        </div>
+      </div>
+    </div>
+
+    <div class="grid">
+      ${tilesHtml}
+    </div>
+
+    <div class="footer">
+      <div>KEEP TRAVELLING</div>
+      <div>PIG TRAVEL</div>
+    </div>
+  </div>
+
+  <script>
+    async function waitForImages() {
+      const images = Array.from(document.images);
+      await Promise.all([
+        ...images.map(img => img.complete ? Promise.resolve() : new Promise(resolve => {
+          img.onload = () => resolve();
+          img.onerror = () => resolve();
+        })),
+        document.fonts.ready
+      ]);
+      await new Promise(r => setTimeout(r, 100));
+    }
+    window.renderReady = waitForImages();
+  </script>
+</body>
+</html>
+  `
+
+  let page: Awaited<ReturnType<Context['puppeteer']['page']>> | null = null
+  try {
+    page = await ctx.puppeteer.page()
+
+    if (config.debug) {
+      page.on('console', msg => ctx.logger('pig').debug(`[Badge] ${msg.text()}`))
+    }
+
+    const rows = Math.ceil(data.items.length / 3)
+    await page.setViewport({ width: 800, height: 360 + rows * 240, deviceScaleFactor: 1 })
+    await page.setContent(html, { waitUntil: 'domcontentloaded' })
+    await page.evaluate(() => window['renderReady'])
+
+    const buffer = await page.screenshot({ type: 'png', fullPage: true }) as Buffer
+    const filename = `pig_badge_${data.userId}_${Date.now()}.png`
+
+    ctx.logger('pig').info(`成就卡片已生成: ${filename}`)
+    return { buffer, filename }
+  } catch (e) {
+    ctx.logger('pig').error('Failed to generate badge card', e)
+    throw e
+  } finally {
+    if (page) {
+      try {
+        await page.close()
+      } catch (closeError) {
+        if (config.debug) {
+          ctx.logger('pig').warn(`Failed to close puppeteer page: ${closeError}`)
+        }
+      }
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  }
+  return text.replace(/[&<>"']/g, m => map[m])
+}
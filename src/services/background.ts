@@ -27,8 +27,12 @@ export async function setGuildBackgroundImage(
   setByUserId: string
 ): Promise<void> {
   if (backgroundImage === null) {
-    // 重置背景
-    await ctx.database.remove('pig_guild_config', { platform, guildId })
+    // 重置背景（仅清空背景字段，保留其他群组设置）
+    await ctx.database.set('pig_guild_config', { platform, guildId }, {
+      backgroundImage: null,
+      backgroundSetBy: null,
+      backgroundSetAt: null,
+    })
   } else {
     await ctx.database.upsert('pig_guild_config', [{
       platform,
@@ -5,10 +5,20 @@ import { Location } from '../constants'
 import { Config } from '../config'
 import { UserInfo } from './travel'
 import { getPigSvgDataUrlByName, getPigSvgDirResolved, getRandomPigSvgDataUrl } from './pig-icon'
+import { formatDistanceKm } from '../utils/geo'
 
 export interface CardData {
   location: Location
   msg: string
+  // 累计飞行距离（公里）
+  totalDistanceKm?: number
+  // 明信片模式：附带手写留言与邮票
+  postcard?: PostcardInfo
+}
+
+export interface PostcardInfo {
+  recipientName: string
+  message: string
 }
 
 export interface CardResult {
@@ -268,6 +278,22 @@ export async function generateFootprintCard(
   const pigBrand = pigSvg
     ? `<img class="pig-emoji pig-emoji--brand" src="${pigSvg}" alt="pig" />`
     : '<span class="pig-emoji-fallback">🐷</span>'
+
+  let postcardHtml = ''
+  if (data.postcard) {
+    const stampSvg = await getPigSvgDataUrlByName('pig-stamp.svg')
+    const stamp = stampSvg
+      ? `<img src="${stampSvg}" alt="stamp" />`
+      : '<span class="pig-emoji-fallback">📮</span>'
+    postcardHtml = `
+    <div class="postcard-note">
+      <div class="postcard-stamp">${stamp}</div>
+      <div class="postcard-to">To ${escapeHtml(data.postcard.recipientName)}：</div>
+      <div class="postcard-message">${escapeHtml(data.postcard.message)}</div>
+      <div class="postcard-postmark">Posted from ${escapeHtml(data.location.landmark)} · ${dateStr}</div>
+    </div>
+    `
+  }
   const html = `
 <!DOCTYPE html>
 <html>
@@ -784,6 +810,14 @@ ${fontFaceCss}
     word-break: break-word;
   }
 
+  .distance-note {
+    font-size: 22px;
+    font-weight: 700;
+    color: rgba(0, 0, 0, 0.55);
+    padding-left: 6px;
+    letter-spacing: 0.02em;
+  }
+
   .brand-tag {
     display: flex;
     flex-direction: column;
@@ -1027,12 +1061,69 @@ ${fontFaceCss}
     padding: 0;
     font-family: "Bebas Neue", "Noto Sans CJK SC", "Microsoft YaHei", sans-serif;
   }
+
+  /* 明信片：手写留言 + 邮票 */
+  .postcard-note {
+    position: absolute;
+    top: 96px;
+    left: 72px;
+    right: 72px;
+    z-index: 10;
+    padding: 48px 56px;
+    background: rgba(255, 252, 245, 0.92);
+    border-radius: 24px;
+    box-shadow: 0 30px 80px -20px rgba(78, 88, 110, 0.35);
+    transform: rotate(-2deg);
+    font-family: var(--body-font);
+  }
+
+  .postcard-stamp {
+    position: absolute;
+    top: -36px;
+    right: -20px;
+    width: 180px;
+    height: 180px;
+    transform: rotate(8deg);
+    font-size: 120px;
+    text-align: center;
+  }
+
+  .postcard-stamp img {
+    width: 100%;
+    height: 100%;
+    object-fit: contain;
+  }
+
+  .postcard-to {
+    font-size: 34px;
+    color: #4A6C56;
+    margin-bottom: 18px;
+  }
+
+  .postcard-message {
+    padding-right: 140px;
+    font-size: 44px;
+    line-height: 1.5;
+    color: #2B2B2B;
+    white-space: pre-wrap;
+    word-break: break-word;
+  }
+
+  .postcard-postmark {
+    margin-top: 24px;
+    font-family: var(--small-font);
+    font-size: 22px;
+    letter-spacing: 0.1em;
+    color: var(--date-color);
+    text-transform: uppercase;
+  }
 </style>
 </head>
 <body>
   <div class="wrapper">
     <img class="bg-image" src="${bgImage || ''}" alt="" crossorigin="anonymous" />
     <div class="bg-overlay"></div>
+    ${postcardHtml}
 
     <div class="card-container">
       <div class="glass-card">
@@ -1075,6 +1166,7 @@ ${fontFaceCss}
                 <span>📍 ${data.location.countryZh || data.location.country} · <span class="latin">${data.location.city}</span></span>
               </div>
               <div class="landmark-name">${data.location.landmark}</div>
+              ${data.totalDistanceKm ? `<div class="distance-note">✈️ 累计飞行 ${formatDistanceKm(data.totalDistanceKm)} km</div>` : ''}
             </div>
 
             <div class="brand-tag">
@@ -1171,7 +1263,7 @@ ${fontFaceCss}
     await page.evaluate(() => window['renderReady'])
 
     const buffer = await page.screenshot({ type: 'png', fullPage: true }) as Buffer
-    const filename = `pig_${userInfo.userId}_${now.getTime()}.png`
+    const filename = `${data.postcard ? 'pig_postcard' : 'pig'}_${userInfo.userId}_${now.getTime()}.png`
     ctx.logger('pig').info(`足迹卡片已生成: ${filename}`)
 
     return { buffer, filename }
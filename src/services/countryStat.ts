@@ -0,0 +1,135 @@
+import { Context } from 'koishi'
+import { PigCountryStat, PigTravelLog } from '../database'
+import { getLogCountryKey } from './history'
+
+type StatLog = Pick<PigTravelLog,
+  'id' | 'userId' | 'platform' | 'guildId' | 'timestamp' | 'country' | 'countryZh' | 'countryIso' | 'continent' | 'distanceKm'>
+
+type CountryStatRow = Omit<PigCountryStat, 'id'>
+
+const STAT_LOG_FIELDS: (keyof StatLog)[] = [
+  'id', 'userId', 'platform', 'guildId', 'timestamp', 'country', 'countryZh', 'countryIso', 'continent', 'distanceKm',
+]
+
+// 汇总任务串行执行，避免启动补汇总与旅行时的即时汇总同时读改写同一行统计
+let foldQueue: Promise<unknown> = Promise.resolve()
+
+function runSerialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = foldQueue.then(task)
+  foldQueue = result.catch(() => {})
+  return result
+}
+
+/**
+ * 把旅行记录累加到终身国家统计（按 平台/用户/群/国家 汇总）
+ * 调用方需保证传入的记录已被认领（aggregated 已置为 true）
+ */
+async function addLogsToCountryStats(ctx: Context, logs: StatLog[]) {
+  const groups = new Map<string, CountryStatRow>()
+  for (const log of logs) {
+    const countryKey = getLogCountryKey(log)
+    const guildId = log.guildId || ''
+    const key = `${log.platform}:${log.userId}:${guildId}:${countryKey}`
+    const visitedAt = new Date(log.timestamp)
+    const group = groups.get(key)
+    if (group) {
+      group.visits++
+      group.distanceKm += log.distanceKm || 0
+      if (visitedAt < group.firstVisitedAt) group.firstVisitedAt = visitedAt
+      if (visitedAt > group.lastVisitedAt) group.lastVisitedAt = visitedAt
+      continue
+    }
+    groups.set(key, {
+      platform: log.platform,
+      userId: log.userId,
+      guildId,
+      countryKey,
+      countryIso: log.countryIso || '',
+      country: log.country,
+      countryZh: log.countryZh || log.country,
+      continent: log.continent || '',
+      visits: 1,
+      distanceKm: log.distanceKm || 0,
+      firstVisitedAt: visitedAt,
+      lastVisitedAt: visitedAt,
+    })
+  }
+
+  for (const group of groups.values()) {
+    const [existing] = await ctx.database.get('pig_country_stat', {
+      platform: group.platform,
+      userId: group.userId,
+      guildId: group.guildId,
+      countryKey: group.countryKey,
+    })
+    const row = existing
+      ? {
+        ...group,
+        countryIso: existing.countryIso || group.countryIso,
+        continent: existing.continent || group.continent,
+        visits: existing.visits + group.visits,
+        distanceKm: (existing.distanceKm || 0) + group.distanceKm,
+        firstVisitedAt: existing.firstVisitedAt < group.firstVisitedAt ? existing.firstVisitedAt : group.firstVisitedAt,
+        lastVisitedAt: existing.lastVisitedAt > group.lastVisitedAt ? existing.lastVisitedAt : group.lastVisitedAt,
+      }
+      : group
+    await ctx.database.upsert('pig_country_stat', [row], ['platform', 'userId', 'guildId', 'countryKey'])
+  }
+}
+
+/**
+ * 认领并汇总符合条件且尚未汇总的记录：先把 aggregated 置为 true 再累加，累加失败时退回
+ */
+async function foldUnaggregatedLogs(ctx: Context, query: Record<string, unknown>): Promise<number> {
+  const logs = await ctx.database.get('pig_travel_log', { ...query, aggregated: false }, STAT_LOG_FIELDS)
+  if (!logs.length) return 0
+
+  const ids = logs.map(log => log.id)
+  await ctx.database.set('pig_travel_log', { id: ids, aggregated: false }, { aggregated: true })
+  try {
+    await addLogsToCountryStats(ctx, logs)
+  } catch (e) {
+    await ctx.database.set('pig_travel_log', { id: ids }, { aggregated: false })
+    throw e
+  }
+  return logs.length
+}
+
+/**
+ * 汇总指定的旅行记录（已汇总过的会被跳过），返回实际处理条数
+ */
+export function foldTravelLogs(ctx: Context, logs: Pick<PigTravelLog, 'id'>[]): Promise<number> {
+  if (!logs.length) return Promise.resolve(0)
+  return runSerialized(() => foldUnaggregatedLogs(ctx, { id: logs.map(log => log.id) }))
+}
+
+/**
+ * 汇总尚未计入统计的旅行记录（可限定早于 before 的记录），返回处理条数
+ */
+export function foldPendingTravelLogs(ctx: Context, before?: Date): Promise<number> {
+  return runSerialized(() => foldUnaggregatedLogs(ctx, before ? { timestamp: { $lt: before } } : {}))
+}
+
+/**
+ * 读取终身国家统计：可按用户、群组筛选
+ */
+export async function getCountryStats(
+  ctx: Context,
+  platform: string,
+  filter: { userId?: string; guildId?: string }
+): Promise<PigCountryStat[]> {
+  const query: Record<string, string> = { platform }
+  if (filter.userId) query.userId = filter.userId
+  if (filter.guildId) query.guildId = filter.guildId
+  return ctx.database.get('pig_country_stat', query)
+}
+
+/**
+ * 累计旅行次数与飞行距离（公里）
+ */
+export function sumCountryStats(stats: Pick<PigCountryStat, 'visits' | 'distanceKm'>[]): { tripCount: number; totalDistanceKm: number } {
+  return {
+    tripCount: stats.reduce((sum, stat) => sum + (stat.visits || 0), 0),
+    totalDistanceKm: stats.reduce((sum, stat) => sum + (stat.distanceKm || 0), 0),
+  }
+}
@@ -0,0 +1,236 @@
+import { Context } from 'koishi'
+import { PigCountryStat, PigTravelLog, PigUserState } from '../database'
+import { isValidCoordinate } from '../utils/geo'
+import { getCountryStats, sumCountryStats } from './countryStat'
+import { getPrivacyOptedOutUserIds } from './privacy'
+
+export type ExportFormat = 'json' | 'csv' | 'geojson'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'geojson']
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  geojson: 'application/geo+json',
+}
+
+export interface ExportTrip {
+  userId: string
+  guildId: string
+  timestamp: string
+  landmark: string
+  landmarkZh: string
+  country: string
+  countryZh: string
+  countryIso: string
+  continent: string
+  timezone: string
+  latitude: number | null
+  longitude: number | null
+  distanceKm: number
+}
+
+export interface ExportCountry {
+  key: string
+  country: string
+  countryZh: string
+  continent: string
+  visits: number
+  firstVisitedAt: string
+  lastVisitedAt: string
+}
+
+export interface ExportStats {
+  userId: string
+  guildId: string
+  totalMessageCount: number
+  nightMessageCount: number
+  nightOwlCount: number
+  abnormalCount: number
+  earlyRiserStreak: number
+  hourlyMessageCounts: Record<string, number>
+  lastWakeUp: string | null
+  // 家乡与时区属于个人位置信息，仅出现在个人导出中
+  homeName?: string
+  timezone?: string
+}
+
+export interface ExportData {
+  platform: string
+  // 导出范围：单个用户或整个群
+  scope: 'user' | 'guild'
+  userId?: string
+  guildId?: string
+  exportedAt: string
+  // 终身累计（来自国家统计，不受旅行日志清理影响）
+  totals: { tripCount: number; totalDistanceKm: number }
+  // 仍保留的旅行日志明细
+  trips: ExportTrip[]
+  countries: ExportCountry[]
+  stats: ExportStats[]
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat)
+}
+
+export function getExportMimeType(format: ExportFormat): string {
+  return EXPORT_MIME_TYPES[format]
+}
+
+function toIsoString(value?: Date | string | null): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function toExportTrip(log: PigTravelLog): ExportTrip {
+  const hasCoordinate = isValidCoordinate(log.latitude, log.longitude)
+  return {
+    userId: log.userId,
+    guildId: log.guildId || '',
+    timestamp: toIsoString(log.timestamp) || '',
+    landmark: log.location,
+    landmarkZh: log.locationZh || log.location,
+    country: log.country,
+    countryZh: log.countryZh || log.country,
+    countryIso: log.countryIso || '',
+    continent: log.continent || '',
+    timezone: log.timezone || '',
+    latitude: hasCoordinate ? log.latitude : null,
+    longitude: hasCoordinate ? log.longitude : null,
+    distanceKm: Math.round((log.distanceKm ?? 0) * 10) / 10,
+  }
+}
+
+function toExportStats(state: PigUserState, includeHome: boolean): ExportStats {
+  let hourlyMessageCounts: Record<string, number> = {}
+  try {
+    hourlyMessageCounts = state.hourlyMessageCounts ? JSON.parse(state.hourlyMessageCounts) : {}
+  } catch {
+    hourlyMessageCounts = {}
+  }
+  const stats: ExportStats = {
+    userId: state.userId,
+    guildId: state.guildId || '',
+    totalMessageCount: state.totalMessageCount ?? 0,
+    nightMessageCount: state.nightMessageCount ?? 0,
+    nightOwlCount: state.nightOwlCount ?? 0,
+    abnormalCount: state.abnormalCount ?? 0,
+    earlyRiserStreak: state.earlyRiserStreak ?? 0,
+    hourlyMessageCounts,
+    lastWakeUp: toIsoString(state.lastWakeUp),
+  }
+  if (includeHome) {
+    stats.homeName = state.homeName || ''
+    stats.timezone = state.timezone || ''
+  }
+  return stats
+}
+
+/**
+ * 按国家合并终身统计（用户导出合并各群，群导出合并各成员）
+ */
+function summarizeCountries(stats: PigCountryStat[]): ExportCountry[] {
+  const countries = new Map<string, ExportCountry>()
+  for (const stat of stats) {
+    const firstVisitedAt = toIsoString(stat.firstVisitedAt) || ''
+    const lastVisitedAt = toIsoString(stat.lastVisitedAt) || ''
+    const existing = countries.get(stat.countryKey)
+    if (existing) {
+      existing.visits += stat.visits || 0
+      if (firstVisitedAt < existing.firstVisitedAt) existing.firstVisitedAt = firstVisitedAt
+      if (lastVisitedAt > existing.lastVisitedAt) existing.lastVisitedAt = lastVisitedAt
+      continue
+    }
+    countries.set(stat.countryKey, {
+      key: stat.countryKey,
+      country: stat.country,
+      countryZh: stat.countryZh || stat.country,
+      continent: stat.continent || '',
+      visits: stat.visits || 0,
+      firstVisitedAt,
+      lastVisitedAt,
+    })
+  }
+  return [...countries.values()].sort((a, b) => b.visits - a.visits || a.firstVisitedAt.localeCompare(b.firstVisitedAt))
+}
+
+/**
+ * 收集导出数据：指定 userId 时导出该用户（跨群），否则导出整个群
+ * 群导出时跳过关闭了统计的用户，且不包含成员的家乡与时区
+ */
+export async function collectExportData(
+  ctx: Context,
+  platform: string,
+  target: { userId?: string; guildId?: string }
+): Promise<ExportData> {
+  const scope = target.userId ? 'user' : 'guild'
+  const query = target.userId
+    ? { platform, userId: target.userId }
+    : { platform, guildId: target.guildId }
+
+  let logs = await ctx.database.get('pig_travel_log', query)
+  let states = await ctx.database.get('pig_user_state', query)
+  let countryStats = await getCountryStats(ctx, platform, target.userId ? { userId: target.userId } : { guildId: target.guildId })
+
+  if (scope === 'guild') {
+    const optedOut = await getPrivacyOptedOutUserIds(ctx, platform, 'noStats')
+    logs = logs.filter(log => !optedOut.has(log.userId))
+    states = states.filter(state => !optedOut.has(state.userId))
+    countryStats = countryStats.filter(stat => !optedOut.has(stat.userId))
+  }
+
+  const totals = sumCountryStats(countryStats)
+  logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  return {
+    platform,
+    scope,
+    userId: target.userId,
+    guildId: target.guildId,
+    exportedAt: new Date().toISOString(),
+    totals: { tripCount: totals.tripCount, totalDistanceKm: Math.round(totals.totalDistanceKm * 10) / 10 },
+    trips: logs.map(toExportTrip),
+    countries: summarizeCountries(countryStats),
+    stats: states.map(state => toExportStats(state, scope === 'user')),
+  }
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_COLUMNS: (keyof ExportTrip)[] = [
+  'timestamp', 'userId', 'guildId', 'landmark', 'landmarkZh', 'country', 'countryZh',
+  'countryIso', 'continent', 'timezone', 'latitude', 'longitude', 'distanceKm',
+]
+
+/**
+ * 将导出数据格式化为文件内容
+ * CSV 每行一次旅行（不含国家列表与作息统计，完整数据请导出 JSON）；GeoJSON 每次旅行一个点（无坐标的记录会被跳过）
+ */
+export function formatExportData(data: ExportData, format: ExportFormat): string {
+  if (format === 'csv') {
+    const rows = data.trips.map(trip => CSV_COLUMNS.map(column => escapeCsv(trip[column])).join(','))
+    // 带 BOM，便于 Excel 正确识别中文
+    return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+  }
+
+  if (format === 'geojson') {
+    const features = data.trips
+      .filter(trip => trip.latitude !== null && trip.longitude !== null)
+      .map(trip => {
+        const { latitude, longitude, ...properties } = trip
+        return {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [longitude, latitude] },
+          properties,
+        }
+      })
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2)
+  }
+
+  return JSON.stringify(data, null, 2)
+}
@@ -0,0 +1,110 @@
+import { Context } from 'koishi'
+import { promises as fs } from 'fs'
+import { resolve, sep } from 'path'
+import { Config } from '../config'
+import { clearHomeCache } from './home'
+import { clearPrivacyCache } from './privacy'
+
+export interface UserIdentity {
+  platform: string
+  userId: string
+}
+
+export interface ForgetResult {
+  identities: UserIdentity[]
+  travelLogs: number
+  userStates: number
+  postcards: number
+  souvenirs: number
+  badges: number
+  files: number
+}
+
+/**
+ * 获取与该账号绑定的所有平台账号（Koishi 账号绑定），不可用时只返回自身
+ */
+export async function getLinkedIdentities(ctx: Context, platform: string, userId: string): Promise<UserIdentity[]> {
+  const identities = new Map<string, UserIdentity>([[`${platform}:${userId}`, { platform, userId }]])
+  try {
+    const [binding] = await ctx.database.get('binding', { platform, pid: userId })
+    if (binding) {
+      const bindings = await ctx.database.get('binding', { aid: binding.aid })
+      for (const item of bindings) {
+        identities.set(`${item.platform}:${item.pid}`, { platform: item.platform, userId: item.pid })
+      }
+    }
+  } catch (e) {
+    ctx.logger('pig').warn(`Failed to resolve linked accounts for ${platform}:${userId}: ${e}`)
+  }
+  return [...identities.values()]
+}
+
+/**
+ * 删除位于背景存储目录内的本地文件，目录外的路径不做处理
+ */
+async function removeLocalFile(ctx: Context, storageRoot: string, fileUrl?: string): Promise<boolean> {
+  if (!fileUrl?.startsWith('file://')) return false
+  const filePath = resolve(fileUrl.replace('file://', ''))
+  if (!filePath.startsWith(storageRoot + sep)) return false
+  try {
+    await fs.unlink(filePath)
+    return true
+  } catch (e) {
+    ctx.logger('pig').warn(`Failed to delete file ${filePath}: ${e}`)
+    return false
+  }
+}
+
+/**
+ * 删除用户在所有群（及绑定的其他平台账号）下的全部数据
+ * 群组背景属于群，只清除设置者记录
+ */
+export async function forgetUser(ctx: Context, config: Config, platform: string, userId: string): Promise<ForgetResult> {
+  const identities = await getLinkedIdentities(ctx, platform, userId)
+  const storageRoot = resolve(config.backgroundStoragePath || './data/pig/backgrounds')
+  const result: ForgetResult = {
+    identities,
+    travelLogs: 0,
+    userStates: 0,
+    postcards: 0,
+    souvenirs: 0,
+    badges: 0,
+    files: 0,
+  }
+
+  for (const identity of identities) {
+    const query = { platform: identity.platform, userId: identity.userId }
+
+    const states = await ctx.database.get('pig_user_state', query, ['backgroundImage'])
+    for (const state of states) {
+      if (await removeLocalFile(ctx, storageRoot, state.backgroundImage)) result.files++
+    }
+
+    result.userStates += (await ctx.database.remove('pig_user_state', query)).removed ?? 0
+    result.travelLogs += (await ctx.database.remove('pig_travel_log', query)).removed ?? 0
+    await ctx.database.remove('pig_country_stat', query)
+    result.souvenirs += (await ctx.database.remove('pig_souvenir', query)).removed ?? 0
+    result.badges += (await ctx.database.remove('pig_badge', query)).removed ?? 0
+    result.postcards += (await ctx.database.remove('pig_postcard', {
+      platform: identity.platform,
+      $or: [{ senderId: identity.userId }, { recipientId: identity.userId }],
+    })).removed ?? 0
+    await ctx.database.remove('pig_usage', { platform: identity.platform, scope: ['user', 'cooldown'], scopeId: identity.userId })
+    await ctx.database.remove('pig_privacy', query)
+    await ctx.database.set('pig_guild_config', { platform: identity.platform, backgroundSetBy: identity.userId }, {
+      backgroundSetBy: '',
+    })
+  }
+
+  clearHomeCache()
+  clearPrivacyCache()
+  return result
+}
+
+export function formatForgetResult(result: ForgetResult): string {
+  const accounts = result.identities.map(identity => `${identity.platform}:${identity.userId}`).join('、')
+  return [
+    `🗑️ 已删除 ${accounts} 的全部数据：`,
+    `旅行记录 ${result.travelLogs} 条，作息统计 ${result.userStates} 条，明信片 ${result.postcards} 张，纪念品 ${result.souvenirs} 种，徽章 ${result.badges} 枚，本地文件 ${result.files} 个`,
+  ].join('\n')
+}
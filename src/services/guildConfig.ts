@@ -0,0 +1,163 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { isValidTimezone } from '../utils/locationValidation'
+
+type GuildConfigValueType = 'boolean' | 'number' | 'string' | 'list' | 'enum'
+
+interface GuildConfigKeyDefinition {
+  type: GuildConfigValueType
+  description: string
+  min?: number
+  max?: number
+  values?: string[]
+}
+
+export type GuildConfigOverrides = Partial<Config>
+
+/**
+ * 允许按群覆盖的配置项（其余配置仅能在插件全局配置中修改）
+ * 频率限制保护机器人所有者的 LLM 与图片额度，不允许按群覆盖
+ */
+export const GUILD_CONFIG_KEYS: Record<string, GuildConfigKeyDefinition> = {
+  outputMode: { type: 'enum', values: ['text', 'image'], description: '输出模式' },
+  travelMessageTemplate: { type: 'string', description: '旅行消息模板' },
+  travelMessageTemplates: { type: 'list', description: '旅行消息模板列表（用 | 分隔，随机选用）' },
+  imageSearchPrompt: { type: 'string', description: '搜图关键词模板' },
+  aigcPrompt: { type: 'string', description: 'AI 生图提示词模板' },
+  travelHistoryDays: { type: 'number', min: 0, max: 365, description: '目的地去重天数' },
+  newCountryWeight: { type: 'number', min: 1, max: 10, description: '新国家权重' },
+  routeMode: { type: 'boolean', description: '路线模式' },
+  routeMaxDistanceKm: { type: 'number', min: 100, max: 20000, description: '路线模式单程最大距离（公里）' },
+  souvenirEnabled: { type: 'boolean', description: '纪念品掉落' },
+  achievementEnabled: { type: 'boolean', description: '成就徽章' },
+  worldMapOfficialOnly: { type: 'boolean', description: '世界地图仅展示官方底图' },
+  defaultLat: { type: 'number', min: -90, max: 90, description: '默认纬度' },
+  defaultLng: { type: 'number', min: -180, max: 180, description: '默认经度' },
+  defaultTimezone: { type: 'string', description: '默认时区（IANA 名称）' },
+  experimentalAutoDetect: { type: 'boolean', description: '自动检测作息异常' },
+  abnormalThreshold: { type: 'number', min: 0, max: 24, description: '作息异常判定阈值（小时）' },
+  silentRecordEnabled: { type: 'boolean', description: '后台静默记录起床时间' },
+  silentRecordAutoTravel: { type: 'boolean', description: '静默记录时自动旅行' },
+  nightOwlEnabled: { type: 'boolean', description: '熬夜检测' },
+  nightOwlStartHour: { type: 'number', min: 0, max: 23, description: '熬夜时段开始' },
+  nightOwlEndHour: { type: 'number', min: 0, max: 23, description: '熬夜时段结束' },
+  nightOwlGrayscaleAvatar: { type: 'boolean', description: '熬夜榜头像黑白滤镜' },
+}
+
+const TRUE_VALUES = ['true', 'on', 'yes', '1', '开', '开启', '是']
+const FALSE_VALUES = ['false', 'off', 'no', '0', '关', '关闭', '否']
+
+// 群配置覆盖缓存（key: `${platform}:${guildId}`）
+const guildConfigCache = new Map<string, GuildConfigOverrides>()
+
+export function isGuildConfigKey(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(GUILD_CONFIG_KEYS, key)
+}
+
+/**
+ * 按配置项类型解析命令输入，无效时抛出带说明的错误
+ */
+export function parseGuildConfigValue(key: string, raw: string): unknown {
+  const definition = GUILD_CONFIG_KEYS[key]
+  if (!definition) throw new Error(`不支持按群覆盖的配置项：${key}`)
+  const text = (raw ?? '').trim()
+
+  switch (definition.type) {
+    case 'boolean': {
+      const lower = text.toLowerCase()
+      if (TRUE_VALUES.includes(lower)) return true
+      if (FALSE_VALUES.includes(lower)) return false
+      throw new Error(`${key} 需要填写 true 或 false`)
+    }
+    case 'number': {
+      const value = Number(text)
+      if (!text || !Number.isFinite(value)) throw new Error(`${key} 需要填写数字`)
+      if ((definition.min !== undefined && value < definition.min) || (definition.max !== undefined && value > definition.max)) {
+        throw new Error(`${key} 的取值范围是 ${definition.min} ~ ${definition.max}`)
+      }
+      return value
+    }
+    case 'enum':
+      if (!definition.values.includes(text)) throw new Error(`${key} 可选值：${definition.values.join(' / ')}`)
+      return text
+    case 'list':
+      return text.split('|').map(item => item.trim()).filter(Boolean)
+    default:
+      if (key === 'defaultTimezone' && text && !isValidTimezone(text)) {
+        throw new Error(`无效的时区：${text}`)
+      }
+      return text
+  }
+}
+
+/**
+ * 格式化配置值用于展示
+ */
+export function formatGuildConfigValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length ? value.join(' | ') : '（空）'
+  if (value === undefined || value === null || value === '') return '（空）'
+  return String(value)
+}
+
+/**
+ * 读取群组的配置覆盖（带缓存），解析失败或无群组时返回空对象
+ */
+export async function getGuildConfigOverrides(ctx: Context, platform: string, guildId: string): Promise<GuildConfigOverrides> {
+  if (!guildId) return {}
+  const key = `${platform}:${guildId}`
+  const cached = guildConfigCache.get(key)
+  if (cached) return cached
+
+  const [guildConfig] = await ctx.database.get('pig_guild_config', { platform, guildId }, ['overrides'])
+  let overrides: GuildConfigOverrides = {}
+  try {
+    const parsed = guildConfig?.overrides ? JSON.parse(guildConfig.overrides) : {}
+    // 只保留仍受支持的配置项，避免旧数据覆盖已移除的项
+    for (const [name, value] of Object.entries(parsed ?? {})) {
+      if (isGuildConfigKey(name)) overrides[name] = value
+    }
+  } catch (e) {
+    ctx.logger('pig').warn(`Invalid guild config overrides for ${key}: ${e}`)
+    overrides = {}
+  }
+
+  guildConfigCache.set(key, overrides)
+  return overrides
+}
+
+/**
+ * 获取群组生效的配置：全局配置 + 群级覆盖
+ * 所有按群生效的逻辑都应通过此函数取配置
+ */
+export async function resolveGuildConfig(ctx: Context, config: Config, platform: string, guildId: string): Promise<Config> {
+  const overrides = await getGuildConfigOverrides(ctx, platform, guildId)
+  if (!Object.keys(overrides).length) return config
+  return { ...config, ...overrides }
+}
+
+async function saveGuildConfigOverrides(ctx: Context, platform: string, guildId: string, overrides: GuildConfigOverrides) {
+  await ctx.database.upsert('pig_guild_config', [{
+    platform,
+    guildId,
+    overrides: JSON.stringify(overrides),
+  }], ['platform', 'guildId'])
+  guildConfigCache.set(`${platform}:${guildId}`, overrides)
+}
+
+export async function setGuildConfigOverride(ctx: Context, platform: string, guildId: string, key: string, value: unknown) {
+  const overrides = await getGuildConfigOverrides(ctx, platform, guildId)
+  await saveGuildConfigOverrides(ctx, platform, guildId, { ...overrides, [key]: value })
+}
+
+/**
+ * 删除群级覆盖，未指定 key 时清除全部
+ */
+export async function resetGuildConfigOverride(ctx: Context, platform: string, guildId: string, key?: string) {
+  const overrides = key ? { ...await getGuildConfigOverrides(ctx, platform, guildId) } : {}
+  if (key) delete overrides[key]
+  await saveGuildConfigOverrides(ctx, platform, guildId, overrides)
+}
+
+export function clearGuildConfigCache() {
+  guildConfigCache.clear()
+}
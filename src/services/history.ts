@@ -0,0 +1,101 @@
+import { Context } from 'koishi'
+import { Location } from '../constants'
+import { PigTravelLog } from '../database'
+import { getCountryISOCode } from '../utils/countryMapping'
+
+export interface TravelHistory {
+  // 窗口期内去过的地标（小写英文名）
+  recentLandmarks: Set<string>
+  // 窗口期内去过的国家（ISO 代码，无法识别时为原始名称）
+  recentCountries: Set<string>
+  // 窗口期内去过的国家中文名（用于 LLM 提示词）
+  recentCountryNames: string[]
+  // 所有记录中去过的国家
+  visitedCountries: Set<string>
+}
+
+export function getCountryKey(country: string, countryZh?: string): string {
+  return getCountryISOCode(country) || getCountryISOCode(countryZh || '') || country
+}
+
+/**
+ * 旅行记录的国家去重键：优先使用写入时保存的 ISO 代码
+ */
+export function getLogCountryKey(log: Pick<PigTravelLog, 'country' | 'countryZh' | 'countryIso'>): string {
+  return log.countryIso || getCountryKey(log.country, log.countryZh)
+}
+
+export function getLandmarkKey(landmark: string): string {
+  return (landmark || '').trim().toLowerCase()
+}
+
+/**
+ * 获取用户的旅行历史（跨群），用于目的地去重
+ */
+export async function getTravelHistory(
+  ctx: Context,
+  userId: string,
+  platform: string,
+  windowDays: number
+): Promise<TravelHistory> {
+  const cutoff = new Date(Date.now() - Math.max(0, windowDays) * 24 * 60 * 60 * 1000)
+  // 只读取窗口期内的记录；去过的国家由终身统计提供
+  const logs = await ctx.database.get('pig_travel_log', { userId, platform, timestamp: { $gte: cutoff } })
+
+  const history: TravelHistory = {
+    recentLandmarks: new Set(),
+    recentCountries: new Set(),
+    recentCountryNames: [],
+    visitedCountries: new Set(),
+  }
+
+  for (const log of logs) {
+    const countryKey = getLogCountryKey(log)
+    history.visitedCountries.add(countryKey)
+    history.recentLandmarks.add(getLandmarkKey(log.location))
+    if (!history.recentCountries.has(countryKey)) {
+      history.recentCountries.add(countryKey)
+      history.recentCountryNames.push(log.countryZh || log.country)
+    }
+  }
+
+  // 窗口期之前（包括已清理的日志）去过的国家来自终身统计
+  const countryStats = await ctx.database.get('pig_country_stat', { userId, platform }, ['countryKey'])
+  for (const stat of countryStats) {
+    history.visitedCountries.add(stat.countryKey)
+  }
+
+  return history
+}
+
+/**
+ * 按旅行历史过滤地点池：排除窗口期内去过的地标与国家
+ * 过滤后为空时，先只排除地标，仍为空则返回原地点池
+ */
+export function filterLocationsByHistory(pool: Location[], history?: TravelHistory): Location[] {
+  if (!history) return pool
+
+  const withoutLandmarks = pool.filter(loc => !history.recentLandmarks.has(getLandmarkKey(loc.landmark)))
+  const withoutCountries = withoutLandmarks.filter(loc => !history.recentCountries.has(getCountryKey(loc.country, loc.countryZh)))
+
+  if (withoutCountries.length) return withoutCountries
+  if (withoutLandmarks.length) return withoutLandmarks
+  return pool
+}
+
+/**
+ * 判断地点是否在窗口期内去过（地标或国家）
+ */
+export function isRecentLocation(location: Location, history?: TravelHistory): boolean {
+  if (!history) return false
+  return history.recentLandmarks.has(getLandmarkKey(location.landmark))
+    || history.recentCountries.has(getCountryKey(location.country, location.countryZh))
+}
+
+/**
+ * 判断地点是否为用户从未去过的国家
+ */
+export function isNewCountry(location: Location, history?: TravelHistory): boolean {
+  if (!history) return false
+  return !history.visitedCountries.has(getCountryKey(location.country, location.countryZh))
+}
@@ -0,0 +1,128 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { findCity, findCityByTimezone, findNearestCity } from '../utils/cities'
+import { getGreatCircleDistanceKm, isValidCoordinate } from '../utils/geo'
+import { isValidTimezone } from '../utils/locationValidation'
+import { getUtcOffsetHours } from '../utils/timezone'
+
+export interface UserHome {
+  name: string
+  latitude: number
+  longitude: number
+  timezone: string
+}
+
+// 坐标与最近内置城市相距超过该值时，改用按经度估算的时区
+const NEAREST_CITY_MAX_KM = 800
+
+// 用户家乡缓存（key: `${platform}:${userId}`，null 表示未设置）
+const homeCache = new Map<string, UserHome | null>()
+
+/**
+ * 按经度估算的固定偏移时区（Etc/GMT 的符号与 UTC 偏移相反）
+ */
+function getLongitudeTimezone(longitude: number): string {
+  const offset = Math.round(longitude / 15)
+  if (offset === 0) return 'UTC'
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`
+}
+
+/**
+ * 离线解析家乡输入：城市名（中英文）、"纬度,经度" 或 IANA 时区
+ * 无法识别时返回 null
+ */
+export function resolveHomeInput(input: string, fallbackLat: number): UserHome | null {
+  const text = (input || '').trim()
+  if (!text) return null
+
+  const coordinate = text.match(/^(-?\d+(?:\.\d+)?)\s*[,，\s]\s*(-?\d+(?:\.\d+)?)$/)
+  if (coordinate) {
+    const latitude = Number(coordinate[1])
+    const longitude = Number(coordinate[2])
+    if (!isValidCoordinate(latitude, longitude)) return null
+    const nearest = findNearestCity(latitude, longitude)
+    const timezone = nearest.distanceKm <= NEAREST_CITY_MAX_KM ? nearest.city.timezone : getLongitudeTimezone(longitude)
+    return { name: `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`, latitude, longitude, timezone }
+  }
+
+  const city = findCity(text)
+  if (city) {
+    return { name: city.nameZh || city.name, latitude: city.latitude, longitude: city.longitude, timezone: city.timezone }
+  }
+
+  if (text.includes('/') || text.toUpperCase() === 'UTC') {
+    if (!isValidTimezone(text)) return null
+    const timezoneCity = findCityByTimezone(text)
+    if (timezoneCity) {
+      return { name: text, latitude: timezoneCity.latitude, longitude: timezoneCity.longitude, timezone: text }
+    }
+    // 表中没有该时区的城市：按 UTC 偏移估算经度
+    const offset = getUtcOffsetHours(text) ?? 0
+    return { name: text, latitude: fallbackLat, longitude: Math.max(-180, Math.min(180, Math.round(offset * 15))), timezone: text }
+  }
+
+  return null
+}
+
+/**
+ * 获取用户家乡（跨群，带缓存），未设置时返回 null
+ */
+export async function getUserHome(ctx: Context, platform: string, userId: string): Promise<UserHome | null> {
+  const key = `${platform}:${userId}`
+  if (homeCache.has(key)) return homeCache.get(key)
+
+  const states = await ctx.database.get('pig_user_state', { platform, userId }, ['homeName', 'latitude', 'longitude', 'timezone'])
+  const state = states.find(item => item.timezone && isValidCoordinate(item.latitude, item.longitude))
+  const home = state
+    ? { name: state.homeName || state.timezone, latitude: state.latitude, longitude: state.longitude, timezone: state.timezone }
+    : null
+  homeCache.set(key, home)
+  return home
+}
+
+/**
+ * 获取用户所用时区：优先家乡时区，其次配置的默认时区，均无效时返回空字符串（服务器时区）
+ */
+export async function getUserTimezone(ctx: Context, config: Config, platform: string, userId: string): Promise<string> {
+  const home = await getUserHome(ctx, platform, userId)
+  if (home?.timezone && isValidTimezone(home.timezone)) return home.timezone
+  const timezone = (config.defaultTimezone ?? '').trim()
+  return timezone && isValidTimezone(timezone) ? timezone : ''
+}
+
+/**
+ * 设置用户家乡：更新该用户在所有群的状态记录
+ */
+export async function setUserHome(ctx: Context, platform: string, userId: string, guildId: string, home: UserHome) {
+  const fields = {
+    homeName: home.name,
+    latitude: home.latitude,
+    longitude: home.longitude,
+    timezone: home.timezone,
+  }
+  await ctx.database.set('pig_user_state', { platform, userId }, fields)
+  await ctx.database.upsert('pig_user_state', [{ platform, userId, guildId, ...fields }], ['platform', 'userId', 'guildId'])
+  homeCache.set(`${platform}:${userId}`, home)
+}
+
+export async function clearUserHome(ctx: Context, platform: string, userId: string) {
+  await ctx.database.set('pig_user_state', { platform, userId }, {
+    homeName: '',
+    latitude: null,
+    longitude: null,
+    timezone: '',
+  })
+  homeCache.set(`${platform}:${userId}`, null)
+}
+
+export function clearHomeCache() {
+  homeCache.clear()
+}
+
+/**
+ * 地点与家乡之间的距离（公里），坐标无效时返回 null
+ */
+export function getDistanceFromHomeKm(home: UserHome | null, latitude: number, longitude: number): number | null {
+  if (!home || !isValidCoordinate(latitude, longitude)) return null
+  return getGreatCircleDistanceKm(home.latitude, home.longitude, latitude, longitude)
+}
@@ -3,7 +3,8 @@ import { promises as fs } from 'fs'
 import { Config } from '../config'
 import { PigTravelLog, PigUserState } from '../database'
 import { getPigSvgDataUrlByName, getPigSvgDirResolved, getRandomPigSvgDataUrl } from './pig-icon'
-import { getCountryISOCode } from '../utils/countryMapping'
+import { getPrivacyOptedOutUserIds } from './privacy'
+import { getCountryStats } from './countryStat'
 
 export interface PigLeaderboardEntry {
   userId: string
@@ -41,27 +42,27 @@ export async function getPigLeaderboard(
   platform: string,
   limit: number = 10
 ): Promise<PigLeaderboardEntry[]> {
-  // 获取该群组的所有旅行记录
-  const logs = await ctx.database.get('pig_travel_log', {
-    guildId,
-    platform,
-  })
+  // 获取该群组的终身国家统计（不受旅行日志清理影响）
+  const stats = await getCountryStats(ctx, platform, { guildId })
 
-  if (logs.length === 0) {
+  if (stats.length === 0) {
     return []
   }
 
+  // 关闭统计的用户不上榜
+  const optedOut = await getPrivacyOptedOutUserIds(ctx, platform, 'noStats')
+
   // 按用户统计
   const userStats = new Map<string, { tripCount: number; countries: Set<string> }>()
 
-  for (const log of logs) {
-    if (!userStats.has(log.userId)) {
-      userStats.set(log.userId, { tripCount: 0, countries: new Set() })
+  for (const row of stats) {
+    if (optedOut.has(row.userId)) continue
+    if (!userStats.has(row.userId)) {
+      userStats.set(row.userId, { tripCount: 0, countries: new Set() })
     }
-    const stat = userStats.get(log.userId)!
-    stat.tripCount++
-    const countryKey = getCountryISOCode(log.country) || getCountryISOCode(log.countryZh) || log.country
-    stat.countries.add(countryKey)
+    const stat = userStats.get(row.userId)!
+    stat.tripCount += row.visits
+    stat.countries.add(row.countryKey)
   }
 
   // 转换为排行榜条目
@@ -104,9 +105,12 @@ export async function getSleepLeaderboard(
     return []
   }
 
+  // 关闭统计的用户不上榜
+  const optedOut = await getPrivacyOptedOutUserIds(ctx, platform, 'noStats')
+
   // 过滤出有熬夜记录的用户并排序
   const entries: SleepLeaderboardEntry[] = states
-    .filter(s => (s.nightOwlCount ?? 0) > 0)
+    .filter(s => (s.nightOwlCount ?? 0) > 0 && !optedOut.has(s.userId))
     .map(s => {
       // 解析小时统计找出最活跃时段
       let peakHour = 0
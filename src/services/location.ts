@@ -2,9 +2,17 @@ import { Context } from 'koishi'
 import '../types'
 import { Config } from '../config'
 import { Location, LOCATIONS } from '../constants'
-import { SystemMessage, HumanMessage } from '@langchain/core/messages'
+import { SystemMessage, HumanMessage, AIMessage, BaseMessage } from '@langchain/core/messages'
 import { searchUnsplashPhoto } from './unsplash'
 import { searchPexelsPhoto } from './pexels'
+import { LocationValidationResult, validateLocation } from '../utils/locationValidation'
+import { TravelHistory, filterLocationsByHistory, isNewCountry, isRecentLocation } from './history'
+import { GuildRegionFilter, describeRegionFilter, isLocationAllowed } from './region'
+import { RouteOrigin, isWithinRoute } from './route'
+import { addPooledLocation, getPoolBucketSize, getPoolStats, takePooledLocation } from './pool'
+import { getLocalHourInTimezone, normalizeUtcOffset } from '../utils/timezone'
+import { CONTINENT_NAMES } from '../utils/countryMapping'
+import { getLocationTemplateVariables, renderTemplate } from '../utils/template'
 
 let llmCooldownUntil = 0
 
@@ -23,7 +31,7 @@ const LOCATION_CATEGORIES = [
 ]
 
 // 大洲列表，用于地理分散
-const CONTINENTS = ['亚洲', '欧洲', '非洲', '北美洲', '南美洲', '大洋洲', '南极洲']
+const CONTINENTS = Object.values(CONTINENT_NAMES).map(names => names.zh)
 
 interface SunriseTimezoneHint {
   utcOffsetRange: string
@@ -35,12 +43,15 @@ interface SunriseTimezoneHint {
   maxOffset: number
 }
 
+function formatUtcOffset(offset: number): string {
+  return offset >= 0 ? `UTC+${offset}` : `UTC${offset}`
+}
+
 /**
- * 以东八区当前时间为基准，计算“此刻正处于日出时段（当地时间约 5:00-7:00）”的时区范围
- * 返回 UTC 偏移量范围，例如 "UTC+5 到 UTC+7"
+ * 以东八区时间为基准，计算“此刻正处于日出时段（当地时间约 5:00-7:00）”的时区范围
+ * 返回 UTC 偏移量范围，例如 "UTC+5 到 UTC+7"；传入未来时间可用于提前预生成地点
  */
-function getSunriseTimezoneHint(): SunriseTimezoneHint {
-  const now = new Date()
+function getSunriseTimezoneHint(now: Date = new Date()): SunriseTimezoneHint {
   const beijingNow = new Date(now.getTime() + 8 * 60 * 60 * 1000)
   const beijingHour = beijingNow.getUTCHours()
   const beijingMinute = beijingNow.getUTCMinutes()
@@ -49,15 +60,8 @@ function getSunriseTimezoneHint(): SunriseTimezoneHint {
   const targetLocalHour = 6
   const idealOffset = targetLocalHour - beijingHour + 8
 
-  // 标准化到 -12 到 +14 范围
-  const normalizeOffset = (offset: number) => {
-    if (offset < -12) return offset + 24
-    if (offset > 14) return offset - 24
-    return offset
-  }
-
-  const minOffset = normalizeOffset(idealOffset - 1)
-  const maxOffset = normalizeOffset(idealOffset + 1)
+  const minOffset = normalizeUtcOffset(idealOffset - 1)
+  const maxOffset = normalizeUtcOffset(idealOffset + 1)
 
   // 根据偏移量给出大致地区提示
   const getRegionByOffset = (offset: number): string => {
@@ -71,11 +75,10 @@ function getSunriseTimezoneHint(): SunriseTimezoneHint {
     return '全球各地'
   }
 
-  const formatOffset = (offset: number) => offset >= 0 ? `UTC+${offset}` : `UTC${offset}`
   const beijingTime = `${String(beijingHour).padStart(2, '0')}:${String(beijingMinute).padStart(2, '0')}`
 
   return {
-    utcOffsetRange: `${formatOffset(minOffset)} 到 ${formatOffset(maxOffset)}`,
+    utcOffsetRange: `${formatUtcOffset(minOffset)} 到 ${formatUtcOffset(maxOffset)}`,
     regionHint: getRegionByOffset(idealOffset),
     beijingTime,
     beijingHour,
@@ -85,17 +88,15 @@ function getSunriseTimezoneHint(): SunriseTimezoneHint {
   }
 }
 
-function getRandomPromptHints(): { category: string; continent: string; avoidCountries: string; sunriseHint: SunriseTimezoneHint } {
+function getRandomPromptHints(history?: TravelHistory, now: Date = new Date()): { category: string; continent: string; avoidCountries: string; sunriseHint: SunriseTimezoneHint } {
   const category = LOCATION_CATEGORIES[Math.floor(Math.random() * LOCATION_CATEGORIES.length)]
   const continent = CONTINENTS[Math.floor(Math.random() * CONTINENTS.length)]
 
-  // 随机选择一些要避免的热门国家，强制探索冷门地区
-  const hotCountries = ['法国', '日本', '意大利', '美国', '英国', '中国', '西班牙', '泰国', '澳大利亚']
-  const shuffled = hotCountries.sort(() => Math.random() - 0.5)
-  const avoidCountries = shuffled.slice(0, 3 + Math.floor(Math.random() * 4)).join('、')
+  // 避开用户最近去过的国家，避免重复
+  const avoidCountries = (history?.recentCountryNames ?? []).join('、')
 
   // 获取当前日出时区提示
-  const sunriseHint = getSunriseTimezoneHint()
+  const sunriseHint = getSunriseTimezoneHint(now)
 
   return { category, continent, avoidCountries, sunriseHint }
 }
@@ -104,7 +105,7 @@ const LOCATION_GENERATION_PROMPT = `你是一位资深旅行探险家，专门
 
 你的任务是生成一个真实存在的旅游目的地。要求：
 1. 地点必须真实存在，可以是著名景点，也可以是小众秘境
-2. 提供准确的地理信息
+2. 提供准确的地理信息，包括地标所在位置的经纬度（十进制度数，北纬/东经为正）
 3. 尽量选择有趣、独特、不常见的地点
 4. 避免总是选择最热门的旅游景点
 5. landscapeUrl 请返回可访问的图片直链，优先使用 Pexels 或 Unsplash
@@ -117,27 +118,63 @@ const LOCATION_GENERATION_PROMPT = `你是一位资深旅行探险家，专门
   "landmark": "地标英文名",
   "landmarkZh": "地标中文名",
   "timezone": "IANA时区字符串",
+  "latitude": 纬度数字,
+  "longitude": 经度数字,
   "landscapeUrl": "https://images.pexels.com/photos/123456/pexels-photo-123456.jpeg 或 https://images.unsplash.com/..."
 }`
 
+// 校验失败后向模型发送修复请求的次数
+const LLM_REPAIR_ATTEMPTS = 1
+// 路线模式下 LLM 结果允许超出最大距离的倍数（模型对距离的估计不精确）
+const ROUTE_LLM_DISTANCE_TOLERANCE = 2
+
+const getResponseText = (content: unknown) => typeof content === 'string' ? content : JSON.stringify(content)
+
 /**
  * Generate a random location using LLM
- * Falls back to static LOCATIONS on any error
+ * Returns null on any error so that callers can choose their own fallback
  */
-export async function generateLocationWithLLM(
+export async function tryGenerateLocationWithLLM(
   ctx: Context,
-  config: Config
-): Promise<Location> {
+  config: Config,
+  history?: TravelHistory,
+  regionFilter?: GuildRegionFilter,
+  route?: RouteOrigin
+): Promise<Location | null> {
   // Check if LLM is available
   if (!config.llmLocationEnabled || !config.llmLocationModel || !ctx.chatluna) {
-    ctx.logger('pig').debug('LLM location generation not enabled or not available, using static locations')
-    return getRandomStaticLocation()
+    ctx.logger('pig').debug('LLM location generation not enabled or not available')
+    return null
   }
 
+  if (config.llmPoolEnabled) {
+    const pooled = drawPooledLocation(ctx, config, history, regionFilter, route)
+    scheduleLocationPoolRefill(ctx, config)
+    if (pooled) return pooled
+  }
+
+  return requestLocationFromLLM(ctx, config, { history, regionFilter, route })
+}
+
+interface LLMLocationRequest {
+  history?: TravelHistory
+  regionFilter?: GuildRegionFilter
+  // 路线模式的出发点（上一站）
+  route?: RouteOrigin
+  // 目标时间（用于计算日出时区），预生成时可传入未来时间
+  now?: Date
+}
+
+/**
+ * 调用 LLM 生成地点并解析配图，失败时返回 null
+ */
+async function requestLocationFromLLM(ctx: Context, config: Config, request: LLMLocationRequest = {}): Promise<Location | null> {
+  const { history, regionFilter, route, now = new Date() } = request
+  const routeMaxDistanceKm = config.routeMaxDistanceKm ?? 1500
   const cooldownMs = config.llmFailureCooldownMs ?? 0
   if (cooldownMs > 0 && Date.now() < llmCooldownUntil) {
-    if (config.debug) ctx.logger('pig').debug('LLM location generation in cooldown, using static locations')
-    return getRandomStaticLocation()
+    if (config.debug) ctx.logger('pig').debug('LLM location generation in cooldown')
+    return null
   }
 
   try {
@@ -149,11 +186,11 @@ export async function generateLocationWithLLM(
     if (!model) {
       ctx.logger('pig').warn(`Failed to create model: ${config.llmLocationModel}`)
       if (cooldownMs > 0) llmCooldownUntil = Date.now() + cooldownMs
-      return getRandomStaticLocation()
+      return null
     }
 
     // 生成随机提示增加多样性
-    const hints = getRandomPromptHints()
+    const hints = getRandomPromptHints(history, now)
     let userPrompt = `请生成一个【${hints.category}】类型的旅游目的地。
 
 🌅 时区要求（重要）：当前东八区时间是 ${hints.sunriseHint.beijingTime}，请选择一个正处于日出时段（当地时间约 5:00-7:00）的地点。
@@ -161,10 +198,26 @@ export async function generateLocationWithLLM(
 
 如果上述地区没有合适的【${hints.category}】类型目的地，可以适当放宽到邻近时区，但优先选择正在迎接日出的地方。
 
-特别要求：请避开 ${hints.avoidCountries} 这些热门国家，选择一个更独特、更少人知道的地方。要求这个地方在地理位置或文化上具有独特性。`
+特别要求：选择一个更独特、更少人知道的地方。要求这个地方在地理位置或文化上具有独特性。`
+
+    if (hints.avoidCountries) {
+      userPrompt += `\n\n这位旅行者最近已经去过 ${hints.avoidCountries}，请避开这些国家，不要重复。`
+    }
+
+    const regionRules = describeRegionFilter(regionFilter)
+    if (regionRules.length) {
+      userPrompt += `\n\n地区限制（必须遵守，优先级高于时区要求）：\n${regionRules.join('\n')}`
+    }
+
+    if (route) {
+      userPrompt += `\n\n🛤️ 路线模式（优先级高于时区要求）：这位旅行者的上一站是 ${route.landmarkZh}（${route.countryZh}，纬度 ${route.latitude.toFixed(2)}，经度 ${route.longitude.toFixed(2)}）。` +
+        `请选择距离上一站 ${routeMaxDistanceKm} 公里以内的下一站，可以是同一国家的其他地方或相邻国家，让旅程连成一条连续的路线，不要选择上一站本身。`
+    }
 
-    if (config.llmLocationCustomContext) {
-      userPrompt += `\n\n此外，请参考以下用户提供的偏好或上下文：${config.llmLocationCustomContext}`
+    // 群级上下文优先于全局上下文
+    const customContext = regionFilter?.llmContext || config.llmLocationCustomContext
+    if (customContext) {
+      userPrompt += `\n\n此外，请参考以下用户提供的偏好或上下文：${customContext}`
     }
 
     userPrompt += `\n\n直接输出JSON，不要有任何其他文字。`
@@ -173,22 +226,47 @@ export async function generateLocationWithLLM(
       ctx.logger('pig').debug(
         `Location prompt hints: bj=${hints.sunriseHint.beijingTime}, ` +
         `ideal=${hints.sunriseHint.idealOffset}, range=${hints.sunriseHint.utcOffsetRange}, ` +
-        `region=${hints.sunriseHint.regionHint}, category=${hints.category}`
+        `region=${hints.sunriseHint.regionHint}, category=${hints.category}, avoid=${hints.avoidCountries || 'none'}`
       )
     }
 
-    const messages = [
+    const messages: BaseMessage[] = [
       new SystemMessage(LOCATION_GENERATION_PROMPT),
       new HumanMessage(userPrompt)
     ]
 
-    const response = await model.invoke(messages, { temperature: 1.0 })
-    const content = typeof response.content === 'string' ? response.content : JSON.stringify(response.content)
+    let response = await model.invoke(messages, { temperature: 1.0 })
+    let content = getResponseText(response.content)
 
     if (config.debug) ctx.logger('pig').debug(`LLM response: ${content}`)
 
     // Parse the JSON response
-    const location = parseLocationResponse(content)
+    let result = parseLocationResponse(content)
+
+    // 校验失败时把错误反馈给模型，要求修正一次
+    for (let attempt = 0; !result.location && attempt < LLM_REPAIR_ATTEMPTS; attempt++) {
+      ctx.logger('pig').warn(`LLM location failed validation: ${result.errors.join('; ')}`)
+      messages.push(
+        new AIMessage(content),
+        new HumanMessage(`上面的输出未通过校验：\n${result.errors.map(error => `- ${error}`).join('\n')}\n\n请修正以上问题后重新输出完整的 JSON，不要有任何其他文字。`)
+      )
+      response = await model.invoke(messages, { temperature: 0.3 })
+      content = getResponseText(response.content)
+      if (config.debug) ctx.logger('pig').debug(`LLM repair response: ${content}`)
+      result = parseLocationResponse(content)
+    }
+
+    const location = result.location
+
+    if (location && !isLocationAllowed(location, regionFilter)) {
+      ctx.logger('pig').warn(`LLM generated location outside guild region filter: ${location.landmark}, ${location.country}`)
+      return null
+    }
+
+    if (location && !isWithinRoute(location, route, routeMaxDistanceKm * ROUTE_LLM_DISTANCE_TOLERANCE)) {
+      ctx.logger('pig').warn(`LLM generated location too far from previous stop: ${location.landmark}, ${location.country}`)
+      return null
+    }
 
     if (location) {
       llmCooldownUntil = 0
@@ -199,11 +277,7 @@ export async function generateLocationWithLLM(
         // Build search queries using user-defined template or defaults
         const template = config.imageSearchPrompt || '{landmark} {country} landscape'
         const formatQuery = (tmpl: string) => {
-          const raw = tmpl
-            .replace('{landmark}', location.landmark)
-            .replace('{country}', location.country)
-            .replace('{city}', location.city || '')
-            .trim()
+          const raw = renderTemplate(tmpl, getLocationTemplateVariables(location, 'en')).trim()
           // Remove non-Latin characters (Chinese, etc.) as Unsplash/Pexels search works poorly with them
           return raw.replace(/[^\u0000-\u007F\u00C0-\u024F\u1E00-\u1EFF]/g, ' ').replace(/\s+/g, ' ').trim()
         }
@@ -247,69 +321,189 @@ export async function generateLocationWithLLM(
       return location
     }
 
-    ctx.logger('pig').warn('Failed to parse LLM response, falling back to static locations')
-    return getRandomStaticLocation()
+    ctx.logger('pig').warn(`Failed to parse LLM response: ${result.errors.join('; ')}`)
+    return null
   } catch (e) {
     ctx.logger('pig').error(`LLM location generation failed: ${e}`)
     if (cooldownMs > 0) llmCooldownUntil = Date.now() + cooldownMs
-    return getRandomStaticLocation()
+    return null
   }
 }
 
+// 预生成时覆盖的小时数：当前正迎来日出的时区桶，以及接下来几小时将迎来日出的时区桶
+const POOL_LOOKAHEAD_HOURS = 2
+
+let poolRefilling = false
+
+function getUpcomingSunriseBuckets(now: Date = new Date()): { bucket: number; time: Date }[] {
+  return Array.from({ length: POOL_LOOKAHEAD_HOURS + 1 }, (_, index) => {
+    const time = new Date(now.getTime() + index * 60 * 60 * 1000)
+    return { bucket: normalizeUtcOffset(getSunriseTimezoneHint(time).idealOffset), time }
+  })
+}
+
 /**
- * Parse the LLM response and extract Location data
+ * 从预生成地点池中取出正处于日出时段、且符合历史去重与地区过滤的地点
  */
-function parseLocationResponse(content: string): Location | null {
-  try {
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
-    const jsonStr = jsonMatch ? jsonMatch[1] : content
+function drawPooledLocation(
+  ctx: Context,
+  config: Config,
+  history?: TravelHistory,
+  regionFilter?: GuildRegionFilter,
+  route?: RouteOrigin
+): Location | null {
+  // 群级上下文会改变生成偏好，预生成的地点不适用
+  if (regionFilter?.llmContext) {
+    if (config.debug) ctx.logger('pig').debug('Location pool skipped: guild has custom LLM context')
+    return null
+  }
 
-    // Try to parse as JSON
-    const data = JSON.parse(jsonStr.trim())
+  const bucket = normalizeUtcOffset(getSunriseTimezoneHint().idealOffset)
+  const bucketOrder = [bucket, normalizeUtcOffset(bucket - 1), normalizeUtcOffset(bucket + 1)]
+  const location = takePooledLocation(
+    bucketOrder,
+    candidate => isLocationAllowed(candidate, regionFilter)
+      && !isRecentLocation(candidate, history)
+      && isWithinRoute(candidate, route, config.routeMaxDistanceKm ?? 1500)
+  )
+
+  if (config.debug) {
+    const stats = getPoolStats()
+    ctx.logger('pig').debug(
+      `Location pool ${location ? 'hit' : 'miss'} (${formatUtcOffset(bucket)}): ` +
+      `hits=${stats.hits}, misses=${stats.misses}, size=${stats.size}`
+    )
+  }
 
-    // Validate required fields
-    if (!data.country || !data.landmark || !data.landscapeUrl) {
-      return null
-    }
+  if (location) {
+    ctx.logger('pig').info(`Using pooled LLM location: ${location.landmarkZh} (${location.landmark}), ${location.countryZh}`)
+  }
+  return location
+}
 
-    // Construct the Location object with defaults
-    const location: Location = {
-      country: data.country,
-      countryZh: data.countryZh || data.country,
-      city: data.city || '',
-      landmark: data.landmark,
-      landmarkZh: data.landmarkZh || data.landmark,
-      timezone: data.timezone || 'UTC',
-      landscapeUrl: data.landscapeUrl
-    }
+/**
+ * 当前或即将迎来日出的时区桶不足一半时，在后台补充地点池
+ */
+function scheduleLocationPoolRefill(ctx: Context, config: Config) {
+  const threshold = Math.ceil((config.llmPoolSize ?? 3) / 2)
+  const low = getUpcomingSunriseBuckets().some(({ bucket }) => getPoolBucketSize(bucket) < threshold)
+  if (!low) return
+  refillLocationPool(ctx, config).catch(e => ctx.logger('pig').warn(`Location pool refill failed: ${e}`))
+}
+
+/**
+ * 补充预生成地点池，使当前及接下来几小时的日出时区桶各有 llmPoolSize 个地点
+ */
+export async function refillLocationPool(ctx: Context, config: Config): Promise<void> {
+  if (!config.llmLocationEnabled || !config.llmPoolEnabled || !config.llmLocationModel || !ctx.chatluna) return
+  if (poolRefilling) return
 
-    // Validate and fix landscapeUrl if needed
-    if (!location.landscapeUrl.startsWith('http')) {
-      // Create a sensible fallback URL using the search keywords
-      const query = `${encodeURIComponent(location.landmark)},${encodeURIComponent(location.country)}`
-      location.landscapeUrl = `https://images.unsplash.com/featured/?${query}`
+  poolRefilling = true
+  const size = config.llmPoolSize ?? 3
+  let generated = 0
+  try {
+    for (const { bucket, time } of getUpcomingSunriseBuckets()) {
+      // 模型可能给出其他时区的地点，限制尝试次数避免无限循环
+      for (let attempt = 0; getPoolBucketSize(bucket) < size && attempt < size * 2; attempt++) {
+        const location = await requestLocationFromLLM(ctx, config, { now: time })
+        // 生成失败（含冷却中）时停止本轮补充
+        if (!location) return
+        const placed = addPooledLocation(location)
+        generated++
+        if (config.debug) {
+          ctx.logger('pig').debug(`Location pool: added ${location.landmark} to ${placed === null ? 'none' : formatUtcOffset(placed)} (target ${formatUtcOffset(bucket)})`)
+        }
+      }
     }
+  } finally {
+    poolRefilling = false
+    if (generated) {
+      ctx.logger('pig').info(`Location pool refilled with ${generated} locations, size=${getPoolStats().size}`)
+    }
+  }
+}
 
-    return location
-  } catch (e) {
-    // Try a more lenient extraction
+/**
+ * Parse the LLM response and extract Location data
+ * 所有字段都经过严格校验，失败时返回错误列表（用于修复重试）
+ */
+function parseLocationResponse(content: string): LocationValidationResult {
+  // Try to extract JSON from markdown code blocks, then a bare JSON-like object
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const objectMatch = content.match(/\{[\s\S]*\}/)
+  const candidates = [jsonMatch?.[1], content, objectMatch?.[0]].filter(Boolean) as string[]
+
+  for (const candidate of candidates) {
+    let data: unknown
     try {
-      // Look for JSON-like object in the content
-      const objectMatch = content.match(/\{[\s\S]*"country"[\s\S]*"landmark"[\s\S]*\}/)
-      if (objectMatch) {
-        return parseLocationResponse(objectMatch[0])
-      }
+      data = JSON.parse(candidate.trim())
     } catch {
-      // Ignore nested errors
+      continue
     }
-    return null
+    return validateLocation(data)
+  }
+
+  return { location: null, errors: ['输出不是合法的 JSON'] }
+}
+
+// 日出中心时间（当地时间）
+const SUNRISE_LOCAL_HOUR = 6
+// 日出窗口逐级放宽的步长（小时，距日出中心时间的最大偏差）
+const SUNRISE_WINDOW_STEPS = [1, 2, 3, 4, 6, 9, 12]
+
+/**
+ * 计算本地时间与日出中心时间的环形差值（0-12 小时）
+ */
+function getSunriseDistanceHours(localHour: number): number {
+  const diff = Math.abs(localHour - SUNRISE_LOCAL_HOUR) % 24
+  return diff > 12 ? 24 - diff : diff
+}
+
+/**
+ * 从静态地点池中按日出时段选点
+ * 优先选择当地时间接近日出的地点，没有匹配时逐级放宽时间窗口；
+ * 窗口内越接近日出中心时间的地点权重越高，可通过 weightOf 额外调整权重
+ * 地点池为空时返回 null
+ */
+export function getRandomStaticLocation(
+  pool: Location[] = LOCATIONS,
+  weightOf: (location: Location) => number = () => 1,
+  now: Date = new Date()
+): Location | null {
+  if (!pool.length) return null
+
+  const distances = pool.map(location => {
+    const localHour = getLocalHourInTimezone(location.timezone, now)
+    return localHour === null ? null : getSunriseDistanceHours(localHour)
+  })
+
+  for (const windowHours of SUNRISE_WINDOW_STEPS) {
+    const candidates: { location: Location; weight: number }[] = []
+    pool.forEach((location, index) => {
+      const distance = distances[index]
+      if (distance === null || distance > windowHours) return
+      candidates.push({ location, weight: (windowHours + 1 - distance) * weightOf(location) })
+    })
+    if (!candidates.length) continue
+
+    const totalWeight = candidates.reduce((sum, c) => sum + c.weight, 0)
+    let roll = Math.random() * totalWeight
+    for (const candidate of candidates) {
+      roll -= candidate.weight
+      if (roll <= 0) return candidate.location
+    }
+    return candidates[candidates.length - 1].location
   }
+
+  return pool[Math.floor(Math.random() * pool.length)]
 }
 
 /**
- * Get a random location from the static LOCATIONS array
+ * 结合用户旅行历史从静态地点池中选点
+ * 排除窗口期内去过的地标与国家，并提高从未去过的国家的权重；地点池为空时返回 null
  */
-export function getRandomStaticLocation(): Location {
-  return LOCATIONS[Math.floor(Math.random() * LOCATIONS.length)]
+export function pickStaticLocation(config: Config, history?: TravelHistory, pool: Location[] = LOCATIONS): Location | null {
+  const candidates = filterLocationsByHistory(pool, history)
+  const newCountryWeight = Math.max(1, config.newCountryWeight ?? 3)
+  return getRandomStaticLocation(candidates, location => isNewCountry(location, history) ? newCountryWeight : 1)
 }
@@ -0,0 +1,215 @@
+import { Context } from 'koishi'
+import { promises as dns } from 'dns'
+import { isIP } from 'net'
+import { dump as dumpYaml, load as loadYaml } from 'js-yaml'
+import '../types'
+import { Location } from '../constants'
+import { PigLocationPack } from '../database'
+import { validateLocation } from '../utils/locationValidation'
+
+export interface LocationPackInfo {
+  name: string
+  description: string
+  enabled: boolean
+  count: number
+  createdBy: string
+  createdAt: Date
+}
+
+export interface LocationPackImportResult {
+  name: string
+  imported: number
+  errors: string[]
+}
+
+// 每个地点包最多展示的错误条数
+const MAX_REPORTED_ERRORS = 10
+const PACK_NAME_PATTERN = /^[\w\u4e00-\u9fff-]{1,32}$/
+
+let cachedEnabledLocations: Location[] | null = null
+
+function invalidatePackCache() {
+  cachedEnabledLocations = null
+}
+
+function parsePackLocations(pack: PigLocationPack): Location[] {
+  try {
+    const data = JSON.parse(pack.locations || '[]')
+    return Array.isArray(data) ? data : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 解析 JSON/YAML 格式的地点包内容
+ * 支持直接的地点数组，或 { description, locations } 对象
+ */
+export function parseLocationPackContent(content: string): { description: string; entries: unknown[] } {
+  let raw: any
+  try {
+    raw = JSON.parse(content)
+  } catch {
+    raw = loadYaml(content)
+  }
+
+  if (Array.isArray(raw)) return { description: '', entries: raw }
+  if (raw && typeof raw === 'object' && Array.isArray(raw.locations)) {
+    return { description: typeof raw.description === 'string' ? raw.description : '', entries: raw.locations }
+  }
+  throw new Error('地点包必须是地点数组，或包含 locations 数组的对象')
+}
+
+export function isValidPackName(name: string): boolean {
+  return PACK_NAME_PATTERN.test(name)
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0)
+    || (a === 198 && (b === 18 || b === 19))
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  return lower === '::' || lower === '::1'
+    || /^f[cd]/.test(lower)
+    || /^fe[89ab]/.test(lower)
+    || lower.startsWith('ff')
+}
+
+/**
+ * 校验用户填写的地点包 URL：仅允许 http(s)，且主机不能解析到内网、回环等地址
+ */
+export async function assertPublicPackUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error('URL 格式无效')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('仅支持 http(s) 地址')
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(item => item.address)
+  } catch {
+    throw new Error(`无法解析主机 ${host}`)
+  }
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new Error('不允许从内网或本机地址导入地点包')
+  }
+}
+
+/**
+ * 导入（或覆盖）地点包，逐条校验，无效条目会被跳过并返回错误
+ */
+export async function importLocationPack(
+  ctx: Context,
+  name: string,
+  content: string,
+  createdBy: string
+): Promise<LocationPackImportResult> {
+  let parsed: ReturnType<typeof parseLocationPackContent>
+  try {
+    parsed = parseLocationPackContent(content)
+  } catch (e) {
+    throw new Error(`无法解析地点包：${e instanceof Error ? e.message : e}`)
+  }
+  const { description, entries } = parsed
+
+  const locations: Location[] = []
+  const errors: string[] = []
+  entries.forEach((entry, index) => {
+    const result = validateLocation(entry)
+    if (result.location) {
+      locations.push(result.location)
+    } else if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push(`#${index + 1}: ${result.errors.join('；')}`)
+    }
+  })
+
+  if (!locations.length) {
+    return { name, imported: 0, errors }
+  }
+
+  const [existing] = await ctx.database.get('pig_location_pack', { name })
+  await ctx.database.upsert('pig_location_pack', [{
+    name,
+    description,
+    locations: JSON.stringify(locations),
+    enabled: existing?.enabled ?? true,
+    createdBy,
+    createdAt: new Date(),
+  }], ['name'])
+  invalidatePackCache()
+
+  return { name, imported: locations.length, errors }
+}
+
+export async function listLocationPacks(ctx: Context): Promise<LocationPackInfo[]> {
+  const packs = await ctx.database.get('pig_location_pack', {})
+  return packs.map(pack => ({
+    name: pack.name,
+    description: pack.description || '',
+    enabled: !!pack.enabled,
+    count: parsePackLocations(pack).length,
+    createdBy: pack.createdBy,
+    createdAt: pack.createdAt,
+  }))
+}
+
+export async function removeLocationPack(ctx: Context, name: string): Promise<boolean> {
+  const [existing] = await ctx.database.get('pig_location_pack', { name })
+  if (!existing) return false
+  await ctx.database.remove('pig_location_pack', { name })
+  invalidatePackCache()
+  return true
+}
+
+export async function setLocationPackEnabled(ctx: Context, name: string, enabled: boolean): Promise<boolean> {
+  const [existing] = await ctx.database.get('pig_location_pack', { name })
+  if (!existing) return false
+  await ctx.database.set('pig_location_pack', { name }, { enabled })
+  invalidatePackCache()
+  return true
+}
+
+/**
+ * 导出地点包为 JSON 或 YAML 文本
+ */
+export async function exportLocationPack(
+  ctx: Context,
+  name: string,
+  format: 'json' | 'yaml' = 'json'
+): Promise<string | null> {
+  const [pack] = await ctx.database.get('pig_location_pack', { name })
+  if (!pack) return null
+  const data = {
+    name: pack.name,
+    description: pack.description || '',
+    locations: parsePackLocations(pack),
+  }
+  return format === 'yaml' ? dumpYaml(data) : JSON.stringify(data, null, 2)
+}
+
+/**
+ * 获取所有已启用地点包中的地点（带缓存）
+ */
+export async function getEnabledPackLocations(ctx: Context): Promise<Location[]> {
+  if (cachedEnabledLocations) return cachedEnabledLocations
+  const packs = await ctx.database.get('pig_location_pack', { enabled: true })
+  cachedEnabledLocations = packs.flatMap(parsePackLocations)
+  return cachedEnabledLocations
+}
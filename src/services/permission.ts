@@ -0,0 +1,33 @@
+import { Context, Session } from 'koishi'
+import { Config } from '../config'
+
+/**
+ * 检查用户是否为全局管理员（Koishi authority >= 3）
+ * 影响所有群的操作（如地点包）只允许全局管理员执行
+ */
+export async function isPigOwner(ctx: Context, session: Session): Promise<boolean> {
+  const user = await ctx.database.getUser(session.platform, session.userId, ['authority'])
+  return (user?.authority ?? 0) >= 3
+}
+
+/**
+ * 检查用户是否为插件管理员
+ * 1. Koishi authority >= 3 的用户
+ * 2. 群主 (owner) 或群管理员 (admin)
+ */
+export async function isPigAdmin(ctx: Context, config: Config, session: Session): Promise<boolean> {
+  const user = await ctx.database.getUser(session.platform, session.userId, ['authority'])
+  const authority = user?.authority ?? 0
+  // 从多个可能的位置获取用户角色（不同适配器存放位置不同）
+  const memberRole = session.author?.roles?.[0]
+    || (session.event as any)?.member?.roles?.[0]
+    || (session.event as any)?.member?.role
+    || (session as any).onebot?.sender?.role
+  const isGuildAdmin = !!session.guildId && (memberRole === 'owner' || memberRole === 'admin')
+
+  if (config.debug) {
+    ctx.logger('pig').debug(`permission check: userId=${session.userId}, authority=${authority}, memberRole=${memberRole}, isGuildAdmin=${isGuildAdmin}`)
+  }
+
+  return authority >= 3 || isGuildAdmin
+}
@@ -0,0 +1,78 @@
+import { Location } from '../constants'
+import { getEquivalentUtcOffsets, getUtcOffsetHours } from '../utils/timezone'
+
+/**
+ * LLM 预生成地点池
+ * 按地点时区当前的 UTC 偏移（整点）分桶，只负责存取，补充逻辑见 location.ts
+ * 本地时刻相同的桶（如 -10 与 +14）在取用和计数时视为同一桶
+ */
+
+interface PooledLocation {
+  location: Location
+  createdAt: number
+}
+
+// 预生成地点的有效期，过期后丢弃（图片直链可能失效）
+const POOL_ENTRY_TTL_MS = 24 * 60 * 60 * 1000
+
+const buckets = new Map<number, PooledLocation[]>()
+const stats = { hits: 0, misses: 0 }
+
+/**
+ * 计算 IANA 时区此刻所在的时区桶（四舍五入到整点的 UTC 偏移），时区无效时返回 null
+ */
+export function getTimezoneBucket(timezone: string, now: Date = new Date()): number | null {
+  const offset = getUtcOffsetHours(timezone, now)
+  return offset === null ? null : Math.round(offset)
+}
+
+function getFreshEntries(bucket: number): PooledLocation[] {
+  const cutoff = Date.now() - POOL_ENTRY_TTL_MS
+  const entries = (buckets.get(bucket) ?? []).filter(entry => entry.createdAt >= cutoff)
+  buckets.set(bucket, entries)
+  return entries
+}
+
+export function getPoolBucketSize(bucket: number): number {
+  return getEquivalentUtcOffsets(bucket).reduce((sum, offset) => sum + getFreshEntries(offset).length, 0)
+}
+
+/**
+ * 放入地点，返回其所在的时区桶；时区无法识别时不入池
+ */
+export function addPooledLocation(location: Location, now: Date = new Date()): number | null {
+  const bucket = getTimezoneBucket(location.timezone, now)
+  if (bucket === null) return null
+  getFreshEntries(bucket).push({ location, createdAt: Date.now() })
+  return bucket
+}
+
+/**
+ * 按给定的时区桶顺序取出第一个符合条件的地点，并记录命中/未命中
+ */
+export function takePooledLocation(bucketOrder: number[], accept: (location: Location) => boolean = () => true): Location | null {
+  for (const bucket of bucketOrder) {
+    for (const offset of getEquivalentUtcOffsets(bucket)) {
+      const entries = getFreshEntries(offset)
+      const index = entries.findIndex(entry => accept(entry.location))
+      if (index !== -1) {
+        stats.hits++
+        return entries.splice(index, 1)[0].location
+      }
+    }
+  }
+  stats.misses++
+  return null
+}
+
+export function getPoolStats(): { hits: number; misses: number; size: number } {
+  let size = 0
+  for (const bucket of buckets.keys()) size += getFreshEntries(bucket).length
+  return { ...stats, size }
+}
+
+export function clearLocationPool() {
+  buckets.clear()
+  stats.hits = 0
+  stats.misses = 0
+}
@@ -0,0 +1,111 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { Location } from '../constants'
+import { PigPostcard, PigTravelLog } from '../database'
+import { CardResult, generateFootprintCard } from './card'
+import { getLandmarkKey } from './history'
+import { getStaticLocationPool } from './provider'
+import { UserInfo, getLastTravelLog } from './travel'
+
+export interface PostcardRecipient {
+  platform: string
+  userId: string
+  username: string
+}
+
+export interface SendPostcardResult {
+  postcard: PigPostcard
+  location: Location
+  card: CardResult | null
+}
+
+// 明信片留言最大长度
+export const POSTCARD_MESSAGE_MAX_LENGTH = 80
+
+/**
+ * 由旅行记录还原地点（旧记录没有风景图时，从地点库中按地标查找）
+ */
+async function restoreTripLocation(ctx: Context, log: PigTravelLog): Promise<Location> {
+  const key = getLandmarkKey(log.location)
+  const known = (await getStaticLocationPool(ctx)).find(location => getLandmarkKey(location.landmark) === key)
+  return {
+    country: log.country,
+    countryZh: log.countryZh || log.country,
+    city: known?.city ?? '',
+    landmark: log.location,
+    landmarkZh: log.locationZh || log.location,
+    timezone: log.timezone,
+    latitude: log.latitude,
+    longitude: log.longitude,
+    landscapeUrl: log.landscapeUrl || known?.landscapeUrl || '',
+  }
+}
+
+/**
+ * 把寄件人最近一次旅行做成明信片寄给收件人
+ * platform 为寄件人所在平台（用于查找旅行记录），明信片按收件人平台存入收件箱
+ * 寄件人还没有旅行记录时返回 null
+ */
+export async function sendPostcard(
+  ctx: Context,
+  config: Config,
+  sender: UserInfo,
+  recipient: PostcardRecipient,
+  platform: string,
+  guildId: string,
+  message: string
+): Promise<SendPostcardResult | null> {
+  const log = await getLastTravelLog(ctx, sender.userId, platform)
+  if (!log) return null
+
+  const location = await restoreTripLocation(ctx, log)
+  const text = message.trim().slice(0, POSTCARD_MESSAGE_MAX_LENGTH)
+    || `来自${location.landmarkZh || location.landmark}的问候！`
+
+  let card: CardResult | null = null
+  if (config.outputMode === 'image') {
+    try {
+      card = await generateFootprintCard(ctx, config, {
+        location,
+        msg: text,
+        postcard: { recipientName: recipient.username || recipient.userId, message: text },
+      }, sender, platform, location.landscapeUrl || null)
+    } catch (e) {
+      ctx.logger('pig').error(`生成明信片失败: ${e}`)
+    }
+  }
+
+  const postcard = await ctx.database.create('pig_postcard', {
+    platform: recipient.platform,
+    guildId,
+    senderId: sender.userId,
+    senderName: sender.username || sender.userId,
+    recipientId: recipient.userId,
+    message: text,
+    country: log.country,
+    countryZh: log.countryZh,
+    location: log.location,
+    locationZh: log.locationZh,
+    travelLogId: log.id,
+    createdAt: new Date(),
+  })
+
+  return { postcard, location, card }
+}
+
+/**
+ * 获取用户收到的明信片（最新在前）
+ */
+export async function getPostcardInbox(
+  ctx: Context,
+  platform: string,
+  recipientId: string,
+  limit: number = 10
+): Promise<{ total: number; postcards: PigPostcard[] }> {
+  const total = (await ctx.database.get('pig_postcard', { platform, recipientId }, ['id'])).length
+  const postcards = await ctx.database.get('pig_postcard', { platform, recipientId }, {
+    sort: { createdAt: 'desc' },
+    limit,
+  })
+  return { total, postcards }
+}
@@ -0,0 +1,81 @@
+import { Context } from 'koishi'
+
+/**
+ * 用户隐私设置（跨群生效）
+ */
+export interface UserPrivacy {
+  // 不允许他人用 pig @我 触发旅行
+  noTargeting: boolean
+  // 不自动触发旅行（静默记录自动旅行、作息异常检测）
+  noAutoTravel: boolean
+  // 不记录作息与消息统计，不上排行榜
+  noStats: boolean
+}
+
+export type PrivacyKey = keyof UserPrivacy
+
+export const PRIVACY_LABELS: Record<PrivacyKey, string> = {
+  noTargeting: '禁止他人 pig 我',
+  noAutoTravel: '不自动旅行',
+  noStats: '不统计作息、不上排行榜',
+}
+
+const DEFAULT_PRIVACY: UserPrivacy = {
+  noTargeting: false,
+  noAutoTravel: false,
+  noStats: false,
+}
+
+// 用户隐私设置缓存（key: `${platform}:${userId}`）
+const privacyCache = new Map<string, UserPrivacy>()
+
+/**
+ * 获取用户隐私设置（带缓存），未设置时全部为 false
+ */
+export async function getUserPrivacy(ctx: Context, platform: string, userId: string): Promise<UserPrivacy> {
+  const key = `${platform}:${userId}`
+  const cached = privacyCache.get(key)
+  if (cached) return cached
+
+  const [row] = await ctx.database.get('pig_privacy', { platform, userId })
+  const privacy: UserPrivacy = row
+    ? { noTargeting: !!row.noTargeting, noAutoTravel: !!row.noAutoTravel, noStats: !!row.noStats }
+    : { ...DEFAULT_PRIVACY }
+  privacyCache.set(key, privacy)
+  return privacy
+}
+
+export async function setUserPrivacy(
+  ctx: Context,
+  platform: string,
+  userId: string,
+  patch: Partial<UserPrivacy>
+): Promise<UserPrivacy> {
+  const privacy = { ...await getUserPrivacy(ctx, platform, userId), ...patch }
+  await ctx.database.upsert('pig_privacy', [{
+    platform,
+    userId,
+    ...privacy,
+    updatedAt: new Date(),
+  }], ['platform', 'userId'])
+  privacyCache.set(`${platform}:${userId}`, privacy)
+  return privacy
+}
+
+/**
+ * 获取开启了某项隐私设置的用户 ID 集合（用于排行榜过滤）
+ */
+export async function getPrivacyOptedOutUserIds(ctx: Context, platform: string, key: PrivacyKey): Promise<Set<string>> {
+  const rows = await ctx.database.get('pig_privacy', { platform, [key]: true }, ['userId'])
+  return new Set(rows.map(row => row.userId))
+}
+
+export function formatUserPrivacy(privacy: UserPrivacy): string {
+  return (Object.keys(PRIVACY_LABELS) as PrivacyKey[])
+    .map(key => `${privacy[key] ? '✅' : '⬜'} ${PRIVACY_LABELS[key]}`)
+    .join('\n')
+}
+
+export function clearPrivacyCache() {
+  privacyCache.clear()
+}
@@ -0,0 +1,175 @@
+import { Context } from 'koishi'
+import { promises as fs } from 'fs'
+import { resolve } from 'path'
+import '../types'
+import { Config } from '../config'
+import { Location, LOCATIONS } from '../constants'
+import { validateLocation } from '../utils/locationValidation'
+import { TravelHistory } from './history'
+import { pickStaticLocation, tryGenerateLocationWithLLM } from './location'
+import { getEnabledPackLocations } from './pack'
+import { GuildRegionFilter, filterLocationsByRegion } from './region'
+import { RouteOrigin, filterLocationsByRoute } from './route'
+
+export interface LocationRequest {
+  userId: string
+  platform: string
+  guildId: string
+  // 用户近期旅行历史（用于去重）
+  history?: TravelHistory
+  // 群组地区过滤
+  regionFilter?: GuildRegionFilter
+  // 路线模式的出发点（上一站）
+  route?: RouteOrigin
+}
+
+/**
+ * 地点提供者
+ * 返回 null/undefined 表示无法提供，将按配置顺序尝试下一个提供者
+ */
+export interface LocationProvider {
+  name: string
+  provide(ctx: Context, config: Config, request: LocationRequest): Promise<Location | null | undefined>
+}
+
+export const DEFAULT_LOCATION_PROVIDERS = ['llm', 'static']
+
+const providers = new Map<string, LocationProvider>()
+
+/**
+ * 注册地点提供者，插件卸载时自动注销
+ * 其他插件可通过该函数接入自定义地点来源（例如公司办公室地点包）
+ */
+export function registerLocationProvider(ctx: Context, provider: LocationProvider): () => void {
+  if (providers.has(provider.name)) {
+    ctx.logger('pig').warn(`Location provider "${provider.name}" is already registered, overriding`)
+  }
+  providers.set(provider.name, provider)
+
+  const dispose = () => {
+    if (providers.get(provider.name) === provider) {
+      providers.delete(provider.name)
+    }
+  }
+  ctx.on('dispose', dispose)
+  return dispose
+}
+
+export function getLocationProvider(name: string): LocationProvider | undefined {
+  return providers.get(name)
+}
+
+export function listLocationProviders(): string[] {
+  return Array.from(providers.keys())
+}
+
+/**
+ * 按配置的提供者顺序获取目的地，全部失败时回退到预设地点库
+ * 群组地区过滤排除了所有地点时抛出错误，不会返回过滤范围外的地点
+ */
+export async function resolveLocation(ctx: Context, config: Config, request: LocationRequest): Promise<Location> {
+  const chain = config.locationProviders?.length ? config.locationProviders : DEFAULT_LOCATION_PROVIDERS
+
+  for (const name of chain) {
+    const provider = providers.get(name)
+    if (!provider) {
+      if (config.debug) ctx.logger('pig').debug(`Location provider "${name}" is not registered, skipping`)
+      continue
+    }
+
+    try {
+      const location = await provider.provide(ctx, config, request)
+      if (location) {
+        if (config.debug) ctx.logger('pig').debug(`Location provided by "${name}": ${location.landmark}, ${location.country}`)
+        return location
+      }
+    } catch (e) {
+      ctx.logger('pig').warn(`Location provider "${name}" failed: ${e}`)
+    }
+  }
+
+  const location = pickLocationFromPool(config, request, await getStaticLocationPool(ctx))
+  if (!location) throw new Error('没有符合本群地区过滤的目的地，请管理员使用 pig.region 调整')
+  return location
+}
+
+/**
+ * 从给定地点池中选点，依次应用群组地区过滤、路线模式与历史去重
+ * 地区过滤后没有地点时返回 null
+ */
+export function pickLocationFromPool(config: Config, request: LocationRequest, pool: Location[]): Location | null {
+  const regional = filterLocationsByRegion(pool, request.regionFilter)
+  if (!regional.length) return null
+  const nearby = filterLocationsByRoute(regional, request.route, config.routeMaxDistanceKm ?? 1500)
+  return pickStaticLocation(config, request.history, nearby)
+}
+
+/**
+ * 预设地点库 + 已启用的自定义地点包
+ */
+export async function getStaticLocationPool(ctx: Context): Promise<Location[]> {
+  try {
+    const packLocations = await getEnabledPackLocations(ctx)
+    return packLocations.length ? [...LOCATIONS, ...packLocations] : LOCATIONS
+  } catch (e) {
+    ctx.logger('pig').warn(`Failed to load location packs: ${e}`)
+    return LOCATIONS
+  }
+}
+
+const staticProvider: LocationProvider = {
+  name: 'static',
+  async provide(ctx, config, request) {
+    return pickLocationFromPool(config, request, await getStaticLocationPool(ctx))
+  },
+}
+
+const llmProvider: LocationProvider = {
+  name: 'llm',
+  async provide(ctx, config, request) {
+    if (!config.llmLocationEnabled || !ctx.chatluna) return null
+    return tryGenerateLocationWithLLM(ctx, config, request.history, request.regionFilter, request.route)
+  },
+}
+
+let cachedFileLocations: { path: string; mtimeMs: number; locations: Location[] } | null = null
+
+/**
+ * 读取 JSON 地点文件（按修改时间缓存）
+ */
+async function loadLocationFile(ctx: Context, filePath: string): Promise<Location[]> {
+  const fullPath = resolve(ctx.baseDir ?? process.cwd(), filePath)
+  const stat = await fs.stat(fullPath)
+  if (cachedFileLocations?.path === fullPath && cachedFileLocations.mtimeMs === stat.mtimeMs) {
+    return cachedFileLocations.locations
+  }
+
+  const raw = JSON.parse(await fs.readFile(fullPath, 'utf8'))
+  const entries: any[] = Array.isArray(raw) ? raw : raw?.locations ?? []
+  const locations = entries
+    .map(item => validateLocation(item).location)
+    .filter((location): location is Location => !!location)
+
+  if (locations.length < entries.length) {
+    ctx.logger('pig').warn(`Location file ${fullPath}: skipped ${entries.length - locations.length} invalid entries`)
+  }
+
+  cachedFileLocations = { path: fullPath, mtimeMs: stat.mtimeMs, locations }
+  return locations
+}
+
+const fileProvider: LocationProvider = {
+  name: 'file',
+  async provide(ctx, config, request) {
+    if (!config.locationFilePath) return null
+    const locations = await loadLocationFile(ctx, config.locationFilePath)
+    if (!locations.length) return null
+    return pickLocationFromPool(config, request, locations)
+  },
+}
+
+export function registerBuiltinLocationProviders(ctx: Context) {
+  registerLocationProvider(ctx, staticProvider)
+  registerLocationProvider(ctx, llmProvider)
+  registerLocationProvider(ctx, fileProvider)
+}
@@ -0,0 +1,152 @@
+import { $, Context } from 'koishi'
+import { Config } from '../config'
+import { getLocalDateKey } from '../utils/timezone'
+
+const HOUR_MS = 60 * 60 * 1000
+// 使用计数保留时间，超过后由每日清理任务删除
+const USAGE_RETENTION_MS = 3 * 24 * HOUR_MS
+const USAGE_KEYS: ('platform' | 'scope' | 'scopeId' | 'period')[] = ['platform', 'scope', 'scopeId', 'period']
+
+type UsageScope = 'user' | 'guild' | 'cooldown'
+
+interface UsagePeriods {
+  // 用户按天计数（按全局默认时区划分日期，各群共用同一天）
+  day: string
+  // 群组按小时计数（UTC 小时，与时区无关）
+  hour: string
+}
+
+/**
+ * 计算计数周期，config 需为全局配置
+ */
+function getUsagePeriods(config: Config, now: Date): UsagePeriods {
+  return {
+    day: getLocalDateKey(config.defaultTimezone ?? '', now),
+    hour: now.toISOString().slice(0, 13),
+  }
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000))
+  if (seconds < 60) return `${seconds} 秒`
+  return `${Math.ceil(seconds / 60)} 分钟`
+}
+
+/**
+ * 原子地增加计数，返回增加后的值
+ */
+async function incrementUsage(ctx: Context, platform: string, scope: UsageScope, scopeId: string, period: string, now: Date): Promise<number> {
+  await ctx.database.upsert('pig_usage', row => [{
+    platform,
+    scope,
+    scopeId,
+    period,
+    count: $.add(row.count, 1),
+    lastUsedAt: now,
+  }], USAGE_KEYS)
+  const [usage] = await ctx.database.get('pig_usage', { platform, scope, scopeId, period }, ['count'])
+  return usage?.count ?? 0
+}
+
+async function decrementUsage(ctx: Context, platform: string, scope: UsageScope, scopeId: string, period: string) {
+  await ctx.database.set('pig_usage', { platform, scope, scopeId, period, count: { $gt: 0 } }, row => ({
+    count: $.sub(row.count, 1),
+  }))
+}
+
+/**
+ * 认领冷却时间：上次出发已超过冷却时间时把出发时间更新为 now，返回 0；否则返回剩余等待毫秒数
+ * 冷却时间单独保存一行（不按周期划分），不会在日期切换时重置
+ */
+async function claimCooldown(ctx: Context, platform: string, userId: string, cooldownSeconds: number, now: Date): Promise<number> {
+  const query = { platform, scope: 'cooldown' as const, scopeId: userId, period: '' }
+  const cooldownMs = cooldownSeconds * 1000
+  const [existing] = await ctx.database.get('pig_usage', query, ['lastUsedAt'])
+  if (!existing) {
+    await ctx.database.upsert('pig_usage', [{ ...query, count: 0, lastUsedAt: now }], USAGE_KEYS)
+    return 0
+  }
+
+  const { matched } = await ctx.database.set('pig_usage', {
+    ...query,
+    lastUsedAt: { $lte: new Date(now.getTime() - cooldownMs) },
+  }, { lastUsedAt: now })
+  if (matched) return 0
+
+  const [latest] = await ctx.database.get('pig_usage', query, ['lastUsedAt'])
+  const elapsed = now.getTime() - new Date(latest?.lastUsedAt ?? 0).getTime()
+  return Math.max(1, cooldownMs - elapsed)
+}
+
+/**
+ * 预占一次旅行额度（用户每日次数、群组每小时次数、冷却时间）
+ * 先原子地增加计数再与上限比较，超出时退还，避免并发请求同时通过检查
+ * 允许时返回 null，否则返回拒绝原因；config 需为全局配置
+ */
+export async function reserveTravelQuota(
+  ctx: Context,
+  config: Config,
+  platform: string,
+  userId: string,
+  guildId: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const cooldownSeconds = config.travelCooldownSeconds ?? 0
+  const userDailyLimit = config.travelUserDailyLimit ?? 0
+  const guildHourlyLimit = config.travelGuildHourlyLimit ?? 0
+  if (cooldownSeconds <= 0 && userDailyLimit <= 0 && guildHourlyLimit <= 0) return null
+
+  const periods = getUsagePeriods(config, now)
+
+  const userCount = await incrementUsage(ctx, platform, 'user', userId, periods.day, now)
+  if (userDailyLimit > 0 && userCount > userDailyLimit) {
+    await decrementUsage(ctx, platform, 'user', userId, periods.day)
+    return `🐷 你今天已经旅行 ${userDailyLimit} 次了（每天最多 ${userDailyLimit} 次），明天再来吧`
+  }
+
+  if (guildId) {
+    const guildCount = await incrementUsage(ctx, platform, 'guild', guildId, periods.hour, now)
+    if (guildHourlyLimit > 0 && guildCount > guildHourlyLimit) {
+      await revertTravelUsage(ctx, config, platform, userId, guildId, now)
+      const nextHour = Math.ceil((now.getTime() + 1) / HOUR_MS) * HOUR_MS
+      return `🐷 本群这一小时的旅行次数已用完（每小时最多 ${guildHourlyLimit} 次），请 ${formatWait(nextHour - now.getTime())}后再试`
+    }
+  }
+
+  if (cooldownSeconds > 0) {
+    const waitMs = await claimCooldown(ctx, platform, userId, cooldownSeconds, now)
+    if (waitMs > 0) {
+      await revertTravelUsage(ctx, config, platform, userId, guildId, now)
+      return `🐷 小猪还在倒时差，请 ${formatWait(waitMs)}后再出发`
+    }
+  }
+
+  return null
+}
+
+/**
+ * 退还一次旅行计数（now 需与 reserveTravelQuota 相同），冷却时间仍然生效
+ */
+export async function revertTravelUsage(
+  ctx: Context,
+  config: Config,
+  platform: string,
+  userId: string,
+  guildId: string,
+  now: Date
+): Promise<void> {
+  const periods = getUsagePeriods(config, now)
+  await decrementUsage(ctx, platform, 'user', userId, periods.day)
+  if (guildId) {
+    await decrementUsage(ctx, platform, 'guild', guildId, periods.hour)
+  }
+}
+
+/**
+ * 删除过期的使用计数
+ */
+export async function cleanupUsage(ctx: Context, now: Date = new Date()): Promise<void> {
+  await ctx.database.remove('pig_usage', {
+    lastUsedAt: { $lt: new Date(now.getTime() - USAGE_RETENTION_MS) },
+  })
+}
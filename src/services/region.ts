@@ -0,0 +1,119 @@
+import { Context } from 'koishi'
+import { Location } from '../constants'
+import {
+  CONTINENT_NAMES,
+  ContinentCode,
+  getContinentByISO,
+  getCountryISOCode,
+  getPrimaryCountryNameZh,
+} from '../utils/countryMapping'
+
+export type CountryFilterMode = 'allow' | 'block' | ''
+
+/**
+ * 群级目的地主题与地区过滤
+ */
+export interface GuildRegionFilter {
+  allowedContinents: ContinentCode[]
+  countryFilterMode: CountryFilterMode
+  countryFilter: string[]
+  llmContext: string
+}
+
+export function isRegionFilterEmpty(filter?: GuildRegionFilter): boolean {
+  return !filter
+    || (!filter.allowedContinents.length
+      && (!filter.countryFilterMode || !filter.countryFilter.length)
+      && !filter.llmContext)
+}
+
+export async function getGuildRegionFilter(
+  ctx: Context,
+  platform: string,
+  guildId: string
+): Promise<GuildRegionFilter | undefined> {
+  if (!guildId) return undefined
+
+  const [guildConfig] = await ctx.database.get('pig_guild_config', { platform, guildId })
+  if (!guildConfig) return undefined
+
+  const mode = guildConfig.countryFilterMode
+  return {
+    allowedContinents: (guildConfig.allowedContinents || []).filter(code => code in CONTINENT_NAMES) as ContinentCode[],
+    countryFilterMode: mode === 'allow' || mode === 'block' ? mode : '',
+    countryFilter: guildConfig.countryFilter || [],
+    llmContext: guildConfig.llmContext || '',
+  }
+}
+
+export async function setGuildRegionFilter(
+  ctx: Context,
+  platform: string,
+  guildId: string,
+  patch: Partial<GuildRegionFilter>
+): Promise<void> {
+  await ctx.database.upsert('pig_guild_config', [{
+    platform,
+    guildId,
+    ...patch,
+  }], ['platform', 'guildId'])
+}
+
+export async function resetGuildRegionFilter(ctx: Context, platform: string, guildId: string): Promise<void> {
+  await ctx.database.set('pig_guild_config', { platform, guildId }, {
+    allowedContinents: [],
+    countryFilterMode: '',
+    countryFilter: [],
+    llmContext: '',
+  })
+}
+
+/**
+ * 判断地点是否符合群组的地区过滤
+ */
+export function isLocationAllowed(location: Location, filter?: GuildRegionFilter): boolean {
+  if (!filter) return true
+
+  const iso = getCountryISOCode(location.country) || getCountryISOCode(location.countryZh)
+
+  if (filter.allowedContinents.length) {
+    const continent = iso ? getContinentByISO(iso) : null
+    if (!continent || !filter.allowedContinents.includes(continent)) return false
+  }
+
+  if (filter.countryFilterMode && filter.countryFilter.length) {
+    const listed = !!iso && filter.countryFilter.includes(iso)
+    if (filter.countryFilterMode === 'allow' && !listed) return false
+    if (filter.countryFilterMode === 'block' && listed) return false
+  }
+
+  return true
+}
+
+/**
+ * 按群组地区过滤地点池；没有符合的地点时返回空数组，不会退回到被排除的地点
+ */
+export function filterLocationsByRegion(pool: Location[], filter?: GuildRegionFilter): Location[] {
+  if (isRegionFilterEmpty(filter)) return pool
+  return pool.filter(location => isLocationAllowed(location, filter))
+}
+
+const formatCountries = (codes: string[]) => codes.map(code => getPrimaryCountryNameZh(code) || code).join('、')
+
+/**
+ * 生成地区过滤的中文描述（用于 LLM 提示词与命令展示）
+ */
+export function describeRegionFilter(filter?: GuildRegionFilter): string[] {
+  if (!filter) return []
+  const lines: string[] = []
+  if (filter.allowedContinents.length) {
+    lines.push(`大洲：${filter.allowedContinents.map(code => CONTINENT_NAMES[code].zh).join('、')}`)
+  }
+  if (filter.countryFilterMode === 'allow' && filter.countryFilter.length) {
+    lines.push(`仅限国家：${formatCountries(filter.countryFilter)}`)
+  }
+  if (filter.countryFilterMode === 'block' && filter.countryFilter.length) {
+    lines.push(`屏蔽国家：${formatCountries(filter.countryFilter)}`)
+  }
+  return lines
+}
@@ -0,0 +1,164 @@
+import { Location } from '../constants'
+import { PigTravelLog } from '../database'
+import { getGreatCircleDistanceKm, isValidCoordinate, projectToWorldMap } from '../utils/geo'
+import { getLandmarkKey } from './history'
+
+/**
+ * 路线模式的出发点（用户上一次旅行的目的地）
+ */
+export type RouteOrigin = Pick<Location, 'country' | 'countryZh' | 'landmark' | 'landmarkZh' | 'latitude' | 'longitude'>
+
+export interface RoutePoint {
+  latitude: number
+  longitude: number
+}
+
+// 逐级放宽搜索半径的上限（公里，约为半个地球周长）
+const MAX_ROUTE_RADIUS_KM = 20000
+// 半径内至少保留的候选数，保证下一站仍有选择余地
+const MIN_ROUTE_CANDIDATES = 3
+// 地图上最多绘制的路线点数（约一个月的旅行）
+const MAX_ROUTE_POINTS = 31
+// world-map.svg 的尺寸
+const MAP_WIDTH = 2400
+const MAP_HEIGHT = 1400
+// 聚焦路线时的留白与最小视野宽度（SVG 坐标单位）
+const ROUTE_VIEW_PADDING = 120
+const ROUTE_VIEW_MIN_WIDTH = 600
+
+export function getRouteOrigin(log?: Pick<PigTravelLog, 'country' | 'countryZh' | 'location' | 'locationZh' | 'latitude' | 'longitude'>): RouteOrigin | undefined {
+  if (!log || !isValidCoordinate(log.latitude, log.longitude)) return undefined
+  return {
+    country: log.country,
+    countryZh: log.countryZh || log.country,
+    landmark: log.location,
+    landmarkZh: log.locationZh || log.location,
+    latitude: log.latitude,
+    longitude: log.longitude,
+  }
+}
+
+export function getRouteDistanceKm(origin: RouteOrigin, location: Location): number | null {
+  if (!isValidCoordinate(location.latitude, location.longitude)) return null
+  return getGreatCircleDistanceKm(origin.latitude, origin.longitude, location.latitude, location.longitude)
+}
+
+/**
+ * 判断地点是否在路线模式允许的距离内
+ */
+export function isWithinRoute(location: Location, origin: RouteOrigin | undefined, maxDistanceKm: number): boolean {
+  if (!origin) return true
+  const distance = getRouteDistanceKm(origin, location)
+  return distance !== null && distance <= maxDistanceKm
+}
+
+/**
+ * 按路线模式过滤地点池：只保留上一站附近的地点（排除上一站本身）
+ * 候选不足时逐级放宽半径，仍为空则返回原地点池
+ */
+export function filterLocationsByRoute(pool: Location[], origin: RouteOrigin | undefined, maxDistanceKm: number): Location[] {
+  if (!origin) return pool
+
+  const originKey = getLandmarkKey(origin.landmark)
+  const candidates = pool
+    .filter(location => getLandmarkKey(location.landmark) !== originKey)
+    .map(location => ({ location, distance: getRouteDistanceKm(origin, location) }))
+    .filter(candidate => candidate.distance !== null)
+  if (!candidates.length) return pool
+
+  let radius = Math.max(1, maxDistanceKm)
+  while (true) {
+    const nearby = candidates.filter(candidate => candidate.distance <= radius)
+    if (nearby.length >= Math.min(MIN_ROUTE_CANDIDATES, candidates.length) || radius >= MAX_ROUTE_RADIUS_KM) {
+      return nearby.length ? nearby.map(candidate => candidate.location) : pool
+    }
+    radius *= 2
+  }
+}
+
+/**
+ * 按时间顺序提取可绘制的路线点（最近 MAX_ROUTE_POINTS 条）
+ */
+export function getRoutePoints(logs: Pick<PigTravelLog, 'timestamp' | 'latitude' | 'longitude'>[]): RoutePoint[] {
+  return logs
+    .filter(log => isValidCoordinate(log.latitude, log.longitude))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-MAX_ROUTE_POINTS)
+    .map(log => ({ latitude: log.latitude, longitude: log.longitude }))
+}
+
+/**
+ * 生成世界地图上的路线图层（SVG 片段，坐标系与 world-map.svg 一致）
+ * 跨越日期变更线的路段会被断开，避免横穿整张地图
+ */
+export function renderRouteLayer(points: RoutePoint[]): string {
+  if (points.length < 2) return ''
+
+  const segments: RoutePoint[][] = [[points[0]]]
+  for (let i = 1; i < points.length; i++) {
+    if (Math.abs(points[i].longitude - points[i - 1].longitude) > 180) {
+      segments.push([])
+    }
+    segments[segments.length - 1].push(points[i])
+  }
+
+  const toXY = (point: RoutePoint) => {
+    const { x, y } = projectToWorldMap(point.latitude, point.longitude)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  }
+
+  const lines = segments
+    .filter(segment => segment.length > 1)
+    .map(segment => `<polyline points="${segment.map(toXY).join(' ')}" fill="none" stroke="#E85D75" stroke-width="5" stroke-linecap="round" stroke-linejoin="round" stroke-dasharray="14 8" />`)
+    .join('')
+
+  const dots = points.map((point, index) => {
+    const [x, y] = toXY(point).split(',')
+    const isEnd = index === points.length - 1
+    const isStart = index === 0
+    const fill = isEnd ? '#E85D75' : isStart ? '#254E58' : '#ffffff'
+    return `<circle cx="${x}" cy="${y}" r="${isStart || isEnd ? 11 : 6}" fill="${fill}" stroke="#E85D75" stroke-width="3" />`
+  }).join('')
+
+  return `<g class="pig-route">${lines}${dots}</g>`
+}
+
+/**
+ * 计算聚焦路线的 viewBox（保持地图宽高比），路线跨越日期变更线时返回整张地图
+ */
+export function getRouteViewBox(points: RoutePoint[]): string {
+  const fullView = `0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`
+  if (!points.length) return fullView
+  for (let i = 1; i < points.length; i++) {
+    if (Math.abs(points[i].longitude - points[i - 1].longitude) > 180) return fullView
+  }
+
+  const projected = points.map(point => projectToWorldMap(point.latitude, point.longitude))
+  const xs = projected.map(p => p.x)
+  const ys = projected.map(p => p.y)
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2
+  const aspect = MAP_WIDTH / MAP_HEIGHT
+  let width = Math.max(
+    ROUTE_VIEW_MIN_WIDTH,
+    Math.max(...xs) - Math.min(...xs) + ROUTE_VIEW_PADDING * 2,
+    (Math.max(...ys) - Math.min(...ys) + ROUTE_VIEW_PADDING * 2) * aspect
+  )
+  width = Math.min(width, MAP_WIDTH)
+  const height = width / aspect
+
+  const x = Math.min(Math.max(0, centerX - width / 2), MAP_WIDTH - width)
+  const y = Math.min(Math.max(0, centerY - height / 2), MAP_HEIGHT - height)
+  return `${x.toFixed(1)} ${y.toFixed(1)} ${width.toFixed(1)} ${height.toFixed(1)}`
+}
+
+/**
+ * 将路线图层插入世界地图 SVG，可选聚焦到路线所在区域
+ */
+export function injectRouteIntoMapSvg(svg: string, points: RoutePoint[], focus = false): string {
+  const layer = renderRouteLayer(points)
+  const end = svg.lastIndexOf('</svg>')
+  if (!layer || end === -1) return svg
+  const withRoute = svg.slice(0, end) + layer + svg.slice(end)
+  return focus ? withRoute.replace(/viewBox="[^"]*"/, `viewBox="${getRouteViewBox(points)}"`) : withRoute
+}
@@ -0,0 +1,445 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { PigSouvenir } from '../database'
+import { getPigSvgDataUrlByName } from './pig-icon'
+
+export type SouvenirRarity = 'common' | 'rare' | 'legendary'
+
+export interface SouvenirDefinition {
+  // 对应 pig_svgs 中的文件名（不含扩展名）
+  id: string
+  nameZh: string
+  rarity: SouvenirRarity
+}
+
+export interface SouvenirDrop {
+  souvenir: SouvenirDefinition
+  count: number
+  isNew: boolean
+}
+
+export interface SouvenirBagItem {
+  souvenir: SouvenirDefinition
+  count: number
+}
+
+export interface SouvenirBagData {
+  userId: string
+  username: string
+  avatarUrl: string
+  items: SouvenirBagItem[]
+  ownedCount: number
+  totalCount: number
+}
+
+// 纪念品图鉴（owl / pig-stamp / world-map 另有用途，不参与掉落）
+export const SOUVENIRS: SouvenirDefinition[] = [
+  { id: 'pig', nameZh: '小猪', rarity: 'common' },
+  { id: 'black-white-pig', nameZh: '黑白猪', rarity: 'common' },
+  { id: 'pig-ball', nameZh: '猪猪球', rarity: 'common' },
+  { id: 'pig-cat', nameZh: '猫猫猪', rarity: 'common' },
+  { id: 'pork-skewer', nameZh: '烤肉串', rarity: 'common' },
+  { id: 'snow-pig', nameZh: '雪猪', rarity: 'common' },
+  { id: 'doll-pig', nameZh: '玩偶猪', rarity: 'common' },
+  { id: 'pig-human', nameZh: '猪人', rarity: 'common' },
+  { id: 'demon-pig', nameZh: '恶魔猪', rarity: 'rare' },
+  { id: 'explosive-pig', nameZh: '爆炸猪', rarity: 'rare' },
+  { id: 'magic-pig', nameZh: '魔法猪', rarity: 'rare' },
+  { id: 'mechanical-pig', nameZh: '机械猪', rarity: 'rare' },
+  { id: 'skeleton-pig', nameZh: '骷髅猪', rarity: 'rare' },
+  { id: 'zombie-pig', nameZh: '僵尸猪', rarity: 'rare' },
+  { id: 'heaven-pig', nameZh: '天堂猪', rarity: 'rare' },
+  { id: 'crystal-pig', nameZh: '水晶猪', rarity: 'legendary' },
+  { id: 'soul-pig', nameZh: '灵魂猪', rarity: 'legendary' },
+  { id: 'zhuge-liang', nameZh: '卧龙猪', rarity: 'legendary' },
+]
+
+// 各稀有度的掉落权重（同一稀有度内均匀抽取）
+const RARITY_WEIGHTS: Record<SouvenirRarity, number> = {
+  common: 70,
+  rare: 25,
+  legendary: 5,
+}
+
+export const RARITY_LABELS: Record<SouvenirRarity, string> = {
+  common: '普通',
+  rare: '稀有',
+  legendary: '传说',
+}
+
+const RARITY_ORDER: SouvenirRarity[] = ['legendary', 'rare', 'common']
+
+export function getSouvenirById(id: string): SouvenirDefinition | undefined {
+  return SOUVENIRS.find(souvenir => souvenir.id === id)
+}
+
+/**
+ * 按稀有度权重抽取一个纪念品
+ */
+export function rollSouvenir(random: () => number = Math.random): SouvenirDefinition {
+  const tiers = RARITY_ORDER.filter(rarity => SOUVENIRS.some(souvenir => souvenir.rarity === rarity))
+  const totalWeight = tiers.reduce((sum, rarity) => sum + RARITY_WEIGHTS[rarity], 0)
+
+  let roll = random() * totalWeight
+  let tier = tiers[tiers.length - 1]
+  for (const rarity of tiers) {
+    roll -= RARITY_WEIGHTS[rarity]
+    if (roll < 0) {
+      tier = rarity
+      break
+    }
+  }
+
+  const candidates = SOUVENIRS.filter(souvenir => souvenir.rarity === tier)
+  return candidates[Math.floor(random() * candidates.length)]
+}
+
+/**
+ * 为一次旅行掉落纪念品并记录到用户收藏
+ */
+export async function dropSouvenir(ctx: Context, userId: string, platform: string): Promise<SouvenirDrop> {
+  const souvenir = rollSouvenir()
+  const now = new Date()
+  const [existing] = await ctx.database.get('pig_souvenir', { userId, platform, souvenirId: souvenir.id })
+
+  if (existing) {
+    const count = existing.count + 1
+    await ctx.database.set('pig_souvenir', { id: existing.id }, { count, lastObtainedAt: now })
+    return { souvenir, count, isNew: false }
+  }
+
+  await ctx.database.create('pig_souvenir', {
+    userId,
+    platform,
+    souvenirId: souvenir.id,
+    count: 1,
+    firstObtainedAt: now,
+    lastObtainedAt: now,
+  })
+  return { souvenir, count: 1, isNew: true }
+}
+
+export function formatSouvenirDrop(drop: SouvenirDrop): string {
+  const label = `【${RARITY_LABELS[drop.souvenir.rarity]}】${drop.souvenir.nameZh}`
+  return drop.isNew
+    ? `🎁 获得纪念品 ${label}（新收藏！）`
+    : `🎁 获得纪念品 ${label}（第 ${drop.count} 个）`
+}
+
+/**
+ * 获取用户的纪念品收藏（包含未获得的图鉴条目）
+ */
+export async function prepareSouvenirBagData(
+  ctx: Context,
+  userId: string,
+  platform: string,
+  username: string,
+  avatarUrl: string
+): Promise<SouvenirBagData> {
+  const rows: PigSouvenir[] = await ctx.database.get('pig_souvenir', { userId, platform })
+  const counts = new Map(rows.map(row => [row.souvenirId, row.count]))
+
+  const items = RARITY_ORDER.flatMap(rarity => SOUVENIRS
+    .filter(souvenir => souvenir.rarity === rarity)
+    .map(souvenir => ({ souvenir, count: counts.get(souvenir.id) ?? 0 })))
+
+  return {
+    userId,
+    username,
+    avatarUrl,
+    items,
+    ownedCount: items.filter(item => item.count > 0).length,
+    totalCount: SOUVENIRS.length,
+  }
+}
+
+/**
+ * 生成纪念品收藏卡片
+ */
+export async function generateSouvenirBagCard(
+  ctx: Context,
+  config: Config,
+  data: SouvenirBagData
+): Promise<{ buffer: Buffer; filename: string }> {
+  const tilesHtml = (await Promise.all(data.items.map(async ({ souvenir, count }) => {
+    const owned = count > 0
+    const svg = await getPigSvgDataUrlByName(`${souvenir.id}.svg`)
+    const image = svg
+      ? `<img class="tile-image" src="${svg}" alt="${souvenir.id}" />`
+      : '<div class="tile-image tile-fallback">🐷</div>'
+    return `
+      <div class="tile rarity-${souvenir.rarity} ${owned ? 'owned' : 'missing'}">
+        ${count > 1 ? `<div class="tile-count">×${count}</div>` : ''}
+        ${image}
+        <div class="tile-name">${owned ? escapeHtml(souvenir.nameZh) : '???'}</div>
+        <div class="tile-rarity">${RARITY_LABELS[souvenir.rarity]}</div>
+      </div>
+    `
+  }))).join('')
+
+  const username = escapeHtml(data.username || data.userId)
+  const avatarUrl = data.avatarUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(username.charAt(0) || 'U')}&background=333&color=fff`
+  const progress = data.totalCount ? Math.round((data.ownedCount / data.totalCount) * 100) : 0
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+  @import url('https://fonts.googleapis.com/css2?family=Noto+Serif+SC:wght@400;700;900&family=Noto+Sans+SC:wght@300;400;700&display=swap');
+
+  * {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+  }
+
+  body {
+    width: 800px;
+    font-family: "Noto Sans SC", sans-serif;
+    background-color: #F7F5F2; /* 纸张米色 */
+    color: #1A1A1A;
+  }
+
+  .container {
+    padding: 60px;
+    position: relative;
+    overflow: hidden;
+  }
+
+  .header {
+    border-bottom: 4px solid #1A1A1A;
+    padding-bottom: 20px;
+    margin-bottom: 32px;
+    display: flex;
+    justify-content: space-between;
+    align-items: flex-end;
+  }
+
+  .main-title {
+    font-family: "Noto Serif SC", serif;
+    font-size: 72px;
+    font-weight: 900;
+    line-height: 0.9;
+    letter-spacing: -3px;
+  }
+
+  .sub-title {
+    font-size: 18px;
+    text-transform: uppercase;
+    letter-spacing: 6px;
+    margin-top: 10px;
+    font-weight: 700;
+    color: #666;
+  }
+
+  .profile {
+    display: flex;
+    align-items: center;
+    gap: 16px;
+  }
+
+  .avatar {
+    width: 72px;
+    height: 72px;
+    border-radius: 50%;
+    border: 2px solid #1A1A1A;
+    object-fit: cover;
+  }
+
+  .profile-name {
+    font-size: 22px;
+    font-weight: 700;
+    max-width: 220px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .profile-progress {
+    font-size: 16px;
+    color: #666;
+    letter-spacing: 2px;
+  }
+
+  .grid {
+    display: grid;
+    grid-template-columns: repeat(4, 1fr);
+    gap: 20px;
+  }
+
+  .tile {
+    position: relative;
+    background: #fff;
+    border: 2px solid #1A1A1A;
+    padding: 18px 12px 14px;
+    text-align: center;
+    box-shadow: 6px 6px 0 rgba(0,0,0,0.08);
+  }
+
+  .tile.rarity-rare {
+    border-color: #4F9D9D;
+  }
+
+  .tile.rarity-legendary {
+    border-color: #E0A100;
+    background: linear-gradient(160deg, #FFF8E1 0%, #FFFFFF 60%);
+  }
+
+  .tile.missing {
+    background: #EFEDEA;
+    box-shadow: none;
+    border-style: dashed;
+  }
+
+  .tile.missing .tile-image {
+    filter: grayscale(100%) brightness(0.2);
+    opacity: 0.25;
+  }
+
+  .tile-image {
+    width: 110px;
+    height: 110px;
+    object-fit: contain;
+    display: block;
+    margin: 0 auto 10px;
+  }
+
+  .tile-fallback {
+    font-size: 80px;
+    line-height: 110px;
+  }
+
+  .tile-name {
+    font-family: "Noto Serif SC", serif;
+    font-size: 20px;
+    font-weight: 700;
+  }
+
+  .tile-rarity {
+    margin-top: 4px;
+    font-size: 13px;
+    letter-spacing: 3px;
+    color: #888;
+  }
+
+  .rarity-rare .tile-rarity {
+    color: #4F9D9D;
+  }
+
+  .rarity-legendary .tile-rarity {
+    color: #C08A00;
+  }
+
+  .tile-count {
+    position: absolute;
+    top: 8px;
+    right: 10px;
+    font-size: 16px;
+    font-weight: 700;
+    background: #1A1A1A;
+    color: #fff;
+    padding: 2px 8px;
+  }
+
+  .footer {
+    margin-top: 40px;
+    padding-top: 16px;
+    border-top: 1px solid #1A1A1A;
+    display: flex;
+    justify-content: space-between;
+    font-size: 14px;
+    letter-spacing: 3px;
+    color: #666;
+  }
+</style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div>
+        <div class="main-title">SOUVENIRS</div>
+        <div class="sub-title">Pig Collection</div>
+      </div>
+      <div class="profile">
+        <img class="avatar" src="${avatarUrl}" onerror="this.src='https://ui-avatars.com/api/?name=U&background=333&color=fff'" />
+        <div>
+          <div class="profile-name">${username}</div>
+          <div class="profile-progress">${data.ownedCount}/${data.totalCount} · ${progress}%</div>
+        </div>
+      </div>
+    </div>
+
+    <div class="grid">
+      ${tilesHtml}
+    </div>
+
+    <div class="footer">
+      <div>COMMON · RARE · LEGENDARY</div>
+      <div>PIG TRAVEL</div>
+    </div>
+  </div>
+
+  <script>
+    async function waitForImages() {
+      const images = Array.from(document.images);
+      await Promise.all([
+        ...images.map(img => img.complete ? Promise.resolve() : new Promise(resolve => {
+          img.onload = () => resolve();
+          img.onerror = () => resolve();
+        })),
+        document.fonts.ready
+      ]);
+      await new Promise(r => setTimeout(r, 100));
+    }
+    window.renderReady = waitForImages();
+  </script>
+</body>
+</html>
+  `
+
+  let page: Awaited<ReturnType<Context['puppeteer']['page']>> | null = null
+  try {
+    page = await ctx.puppeteer.page()
+
+    if (config.debug) {
+      page.on('console', msg => ctx.logger('pig').debug(`[Souvenir] ${msg.text()}`))
+    }
+
+    const rows = Math.ceil(data.items.length / 4)
+    await page.setViewport({ width: 800, height: 360 + rows * 230, deviceScaleFactor: 1 })
+    await page.setContent(html, { waitUntil: 'domcontentloaded' })
+    await page.evaluate(() => window['renderReady'])
+
+    const buffer = await page.screenshot({ type: 'png', fullPage: true }) as Buffer
+    const filename = `pig_bag_${data.userId}_${Date.now()}.png`
+
+    ctx.logger('pig').info(`纪念品卡片已生成: ${filename}`)
+    return { buffer, filename }
+  } catch (e) {
+    ctx.logger('pig').error('Failed to generate souvenir card', e)
+    throw e
+  } finally {
+    if (page) {
+      try {
+        await page.close()
+      } catch (closeError) {
+        if (config.debug) {
+          ctx.logger('pig').warn(`Failed to close puppeteer page: ${closeError}`)
+        }
+      }
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  }
+  return text.replace(/[&<>"']/g, m => map[m])
+}
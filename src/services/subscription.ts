@@ -0,0 +1,156 @@
+import { Bot, Context, segment } from 'koishi'
+import { Config } from '../config'
+import { PigSubscription } from '../database'
+import { getAdminBackgroundImage } from './background'
+import { resolveGuildConfig } from './guildConfig'
+import { getUserPrivacy } from './privacy'
+import {
+  generateMonthlySummaryCard,
+  generateMonthlySummaryGroupCard,
+  getUsersWithLogsInMonth,
+  prepareMonthlySummary,
+  prepareMonthlySummaryGroup,
+} from './summary'
+
+export interface SubscriptionTarget {
+  platform: string
+  guildId: string
+  channelId: string
+  selfId?: string
+}
+
+export async function getGuildSubscription(ctx: Context, platform: string, guildId: string): Promise<PigSubscription | undefined> {
+  const [subscription] = await ctx.database.get('pig_subscription', { platform, guildId })
+  return subscription
+}
+
+/**
+ * 旅行发生时自动登记群组订阅；已存在的订阅（包括管理员关闭的）保持不变
+ */
+export async function recordGuildSubscription(ctx: Context, config: Config, target: SubscriptionTarget): Promise<void> {
+  if (!target.guildId) return
+  const existing = await getGuildSubscription(ctx, target.platform, target.guildId)
+  if (existing) return
+
+  await ctx.database.create('pig_subscription', {
+    platform: target.platform,
+    guildId: target.guildId,
+    channelId: target.channelId || target.guildId,
+    selfId: target.selfId || '',
+    enabled: true,
+    personalCards: config.monthlySummaryPersonalCards ?? false,
+    source: 'auto',
+    updatedAt: new Date(),
+  })
+}
+
+/**
+ * 管理员设置群组订阅（发送频道取当前频道）
+ */
+export async function setGuildSubscription(
+  ctx: Context,
+  config: Config,
+  target: SubscriptionTarget,
+  patch: Partial<Pick<PigSubscription, 'enabled' | 'personalCards'>>
+): Promise<PigSubscription> {
+  const existing = await getGuildSubscription(ctx, target.platform, target.guildId)
+  const subscription = {
+    platform: target.platform,
+    guildId: target.guildId,
+    channelId: target.channelId || existing?.channelId || target.guildId,
+    selfId: target.selfId || existing?.selfId || '',
+    enabled: existing?.enabled ?? true,
+    personalCards: existing?.personalCards ?? (config.monthlySummaryPersonalCards ?? false),
+    ...patch,
+    source: 'manual',
+    updatedAt: new Date(),
+  }
+  await ctx.database.upsert('pig_subscription', [subscription], ['platform', 'guildId'])
+  return { id: existing?.id, ...subscription }
+}
+
+/**
+ * 查找用于发送的机器人：优先登记时的机器人，否则取同平台任意在线机器人
+ */
+function findBot(ctx: Context, platform: string, selfId?: string): Bot | undefined {
+  return ctx.bots.find(bot => bot.platform === platform && (!selfId || bot.selfId === selfId))
+    || ctx.bots.find(bot => bot.platform === platform)
+}
+
+async function getMemberProfile(bot: Bot, platform: string, guildId: string, userId: string) {
+  let username = userId
+  let avatarUrl = ''
+  const isNumericId = /^\d+$/.test(userId)
+  if (isNumericId && (platform === 'onebot' || platform === 'qq' || platform.includes('qq'))) {
+    avatarUrl = `https://q.qlogo.cn/headimg_dl?dst_uin=${userId}&spec=640`
+  }
+  try {
+    const member = await bot.getGuildMember(guildId, userId)
+    username = member.nick || member.name || member.user?.name || username
+    avatarUrl = avatarUrl || member.user?.avatar || ''
+  } catch {
+    // 忽略获取失败
+  }
+  return { username, avatarUrl }
+}
+
+/**
+ * 向订阅的群发送月度总结：群合照卡片，以及可选的成员个人卡片
+ * 合照始终按本群成员统计；个人卡片按 monthlySummaryScope 统计
+ */
+export async function deliverMonthlySummary(
+  ctx: Context,
+  config: Config,
+  subscription: PigSubscription,
+  year: number,
+  month: number
+): Promise<boolean> {
+  const { platform, guildId, channelId } = subscription
+  const bot = findBot(ctx, platform, subscription.selfId)
+  if (!bot) {
+    ctx.logger('pig').warn(`No bot available for ${platform}:${guildId}, skipping monthly summary`)
+    return false
+  }
+
+  const guildConfig = await resolveGuildConfig(ctx, config, platform, guildId)
+  const users = await getUsersWithLogsInMonth(ctx, year, month, guildId)
+  const members = users.filter(user => user.platform === platform)
+  if (!members.length) return false
+
+  const profiles = new Map<string, { username?: string; avatarUrl?: string }>()
+  for (const { userId } of members) {
+    profiles.set(`${platform}:${userId}`, await getMemberProfile(bot, platform, guildId, userId))
+  }
+
+  const backgroundImage = await getAdminBackgroundImage(ctx, platform, guildId)
+  const groupData = await prepareMonthlySummaryGroup(ctx, year, month, guildId, profiles)
+  if (backgroundImage) groupData.backgroundImage = backgroundImage
+  const groupCard = await generateMonthlySummaryGroupCard(ctx, guildConfig, groupData)
+  await bot.sendMessage(channelId, `${year}年${month}月 旅行大合照\n${segment.image(`data:image/png;base64,${groupCard.buffer.toString('base64')}`)}`)
+
+  if (!subscription.personalCards) return true
+
+  for (const { userId } of members) {
+    try {
+      if ((await getUserPrivacy(ctx, platform, userId)).noStats) continue
+      const profile = profiles.get(`${platform}:${userId}`)
+      const summaryData = await prepareMonthlySummary(
+        ctx,
+        userId,
+        platform,
+        profile?.username || userId,
+        profile?.avatarUrl || '',
+        year,
+        month,
+        guildConfig.monthlySummaryScope === 'guild' ? guildId : undefined
+      )
+      if (backgroundImage) summaryData.backgroundImage = backgroundImage
+      const card = await generateMonthlySummaryCard(ctx, guildConfig, summaryData)
+      await bot.sendMessage(channelId, `${segment.at(userId)} ${year}年${month}月 旅行总结\n${segment.image(`data:image/png;base64,${card.buffer.toString('base64')}`)}`)
+    } catch (e) {
+      ctx.logger('pig').warn(`Failed to send monthly summary for ${userId} in ${guildId}: ${e}`)
+    }
+  }
+
+  return true
+}
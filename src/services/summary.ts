@@ -4,6 +4,11 @@ import { Config } from '../config'
 import { PigTravelLog } from '../database'
 import { getPigSvgDataUrlByName, getPigSvgDirResolved, getRandomPigSvgDataUrl } from './pig-icon'
 import { getAdminBackgroundImage } from './background'
+import { formatDistanceKm } from '../utils/geo'
+import { ContinentBreakdown, getContinentBreakdown } from '../utils/countryMapping'
+import { getLogCountryKey } from './history'
+import { RoutePoint, getRoutePoints, injectRouteIntoMapSvg } from './route'
+import { getWorldMapSvg } from './worldmap'
 
 export interface MonthlySummaryData {
   userId: string
@@ -16,6 +21,12 @@ export interface MonthlySummaryData {
   totalTrips: number
   countriesVisited: string[]
   locationsVisited: string[]
+  // 当月累计飞行距离（公里）
+  totalDistanceKm: number
+  // 路线模式：按时间顺序的旅行坐标
+  route: RoutePoint[]
+  // 当月去过的大洲分布
+  continents: ContinentBreakdown[]
   backgroundImage?: string
 }
 
@@ -27,6 +38,7 @@ export interface MonthlySummaryGroupUser {
   totalTrips: number
   countriesCount: number
   locationsCount: number
+  distanceKm: number
 }
 
 export interface MonthlySummaryGroupData {
@@ -136,10 +148,11 @@ export async function prepareMonthlySummaryGroup(
     totalTrips: number
     countries: Set<string>
     locations: Set<string>
+    distanceKm: number
   }>()
 
   for (const log of logs) {
-    countriesSet.add(log.country)
+    countriesSet.add(getLogCountryKey(log))
     locationsSet.add(log.location)
     const key = `${log.platform}:${log.userId}`
     if (!userMap.has(key)) {
@@ -148,13 +161,15 @@ export async function prepareMonthlySummaryGroup(
         platform: log.platform,
         totalTrips: 0,
         countries: new Set<string>(),
-        locations: new Set<string>()
+        locations: new Set<string>(),
+        distanceKm: 0
       })
     }
     const entry = userMap.get(key)!
     entry.totalTrips += 1
-    entry.countries.add(log.country)
+    entry.countries.add(getLogCountryKey(log))
     entry.locations.add(log.location)
+    entry.distanceKm += log.distanceKm || 0
   }
 
   const users: MonthlySummaryGroupUser[] = Array.from(userMap.values()).map(entry => {
@@ -168,7 +183,8 @@ export async function prepareMonthlySummaryGroup(
       avatarUrl,
       totalTrips: entry.totalTrips,
       countriesCount: entry.countries.size,
-      locationsCount: entry.locations.size
+      locationsCount: entry.locations.size,
+      distanceKm: entry.distanceKm
     }
   })
 
@@ -223,7 +239,7 @@ export async function generateMonthlySummaryCard(
   config: Config,
   data: MonthlySummaryData
 ): Promise<SummaryCardResult> {
-  const { year, month, logs, username, totalTrips, countriesVisited, locationsVisited, backgroundImage } = data
+  const { year, month, logs, username, totalTrips, countriesVisited, locationsVisited, totalDistanceKm, route, continents, backgroundImage } = data
   let { avatarUrl } = data
 
   // 默认占位符背景
@@ -318,6 +334,40 @@ export async function generateMonthlySummaryCard(
     ? `<div class="more-trips">... And ${logs.length - 12} more journeys ...</div>`
     : ''
 
+  // 大洲分布，例如 Europe 3/44
+  const continentsHtml = continents?.length
+    ? `
+    <div class="continent-list">
+      ${continents.map(item => `
+        <div class="continent-chip">
+          <span class="continent-en">${item.en}</span>
+          <span class="continent-zh">${item.zh}</span>
+          <span class="continent-count">${item.visited}/${item.total}</span>
+        </div>
+      `).join('')}
+    </div>
+    `
+    : ''
+
+  // 路线模式：在地图上绘制当月路线
+  let routeHtml = ''
+  if (config.routeMode && route?.length >= 2) {
+    try {
+      const routeSvg = injectRouteIntoMapSvg(await getWorldMapSvg(ctx), route, true)
+      routeHtml = `
+    <div class="route-section">
+      <div class="section-header">
+        <div class="section-title">Route</div>
+        <div class="section-subtitle">${route.length} stops · one continuous journey</div>
+      </div>
+      <div class="route-map">${routeSvg}</div>
+    </div>
+      `
+    } catch (e) {
+      ctx.logger('pig').warn(`Failed to render route map: ${e}`)
+    }
+  }
+
   const html = `
 <!DOCTYPE html>
 <html>
@@ -554,6 +604,55 @@ export async function generateMonthlySummaryCard(
     flex: 1;
   }
 
+  .continent-list {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 16px;
+    margin-bottom: 60px;
+  }
+
+  .continent-chip {
+    display: flex;
+    align-items: baseline;
+    gap: 10px;
+    border: 1px solid #1A1A1A;
+    background: #fff;
+    padding: 10px 18px;
+  }
+
+  .continent-en {
+    font-size: 20px;
+    font-weight: 700;
+  }
+
+  .continent-zh {
+    font-size: 14px;
+    color: #888;
+  }
+
+  .continent-count {
+    font-family: "Noto Serif SC", serif;
+    font-size: 22px;
+    font-weight: 700;
+    color: #254E58;
+  }
+
+  .route-section {
+    margin-bottom: 60px;
+  }
+
+  .route-map {
+    background: #fff;
+    border: 1px solid #1A1A1A;
+    overflow: hidden;
+  }
+
+  .route-map svg {
+    width: 100%;
+    height: auto;
+    display: block;
+  }
+
   .section-header {
     display: flex;
     justify-content: space-between;
@@ -752,10 +851,14 @@ export async function generateMonthlySummaryCard(
       </div>
     </div>
 
+    ${continentsHtml}
+
+    ${routeHtml}
+
     <div class="trips-section">
       <div class="section-header">
         <div class="section-title">Travel Log</div>
-        <div class="section-subtitle">Record of your journey</div>
+        <div class="section-subtitle">Record of your journey · ${formatDistanceKm(totalDistanceKm || 0)} km flown</div>
       </div>
 
       <div class="trips-list">
@@ -809,7 +912,7 @@ export async function generateMonthlySummaryCard(
     // 动态高度
     const baseHeight = 1200
     const tripHeight = Math.min(logs.length, 12) * 110
-    const extraHeight = logs.length > 12 ? 80 : 0
+    const extraHeight = (logs.length > 12 ? 80 : 0) + (routeHtml ? 680 : 0) + (continentsHtml ? 120 : 0)
     const totalHeight = baseHeight + tripHeight + extraHeight + (logs.length === 0 ? 0 : 0)
 
     await page.setViewport({ width: 1080, height: Math.max(1920, totalHeight), deviceScaleFactor: 1 })
@@ -891,6 +994,7 @@ export async function generateMonthlySummaryGroupCard(
           <span>${user.totalTrips} trips</span>
           <span>${user.countriesCount} countries</span>
           <span>${user.locationsCount} locations</span>
+          <span>${formatDistanceKm(user.distanceKm || 0)} km</span>
         </div>
       </div>
     `
@@ -1220,10 +1324,12 @@ export async function prepareMonthlySummary(
 
   const countriesSet = new Set<string>()
   const locationsSet = new Set<string>()
+  let totalDistanceKm = 0
 
   for (const log of logs) {
-    countriesSet.add(log.country)
+    countriesSet.add(getLogCountryKey(log))
     locationsSet.add(log.location)
+    totalDistanceKm += log.distanceKm || 0
   }
 
   // 获取群组统一背景
@@ -1243,6 +1349,9 @@ export async function prepareMonthlySummary(
     totalTrips: logs.length,
     countriesVisited: Array.from(countriesSet),
     locationsVisited: Array.from(locationsSet),
+    totalDistanceKm,
+    route: getRoutePoints(logs),
+    continents: getContinentBreakdown(logs.map(log => log.countryIso).filter(Boolean)),
     backgroundImage
   }
 }
@@ -1,20 +1,98 @@
 import { Context } from 'koishi'
+import { Config } from '../config'
+import { computeSolarTimes, getSolarDayStart } from '../utils/solar'
 
 export interface SunriseInfo {
   sunrise: Date
   sunset: Date
+  civilDawn: Date
+  civilDusk: Date
+  solarNoon: Date
+  // 极昼 / 极夜时日出日落取当天边界或正午
+  polar?: 'day' | 'night'
 }
 
-export async function getSunriseInfo(ctx: Context, lat: number, lng: number, date: string = 'today'): Promise<SunriseInfo> {
-  const url = `https://api.sunrise-sunset.org/json?lat=${lat}&lng=${lng}&formatted=0&date=${date}`
-  const data = await ctx.http.get(url, { timeout: 8000 })
+// 与在线 API 的偏差超过该值时记录警告（分钟）
+const CROSS_CHECK_TOLERANCE_MINUTES = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 按经纬度与当地日期缓存，日期变化后整体清空
+const sunriseCache = new Map<string, SunriseInfo>()
+let sunriseCacheDay: number | null = null
+
+function normalizeDate(date: Date | string): Date {
+  if (date instanceof Date) return date
+  if (!date || date === 'today') return new Date()
+  const parsed = new Date(`${date}T12:00:00Z`)
+  return Number.isNaN(parsed.getTime()) ? new Date() : parsed
+}
+
+/**
+ * 本地计算日出日落；极昼时日出日落为当天起止，极夜时均为正午
+ */
+function computeSunriseInfo(lat: number, lng: number, date: Date): SunriseInfo {
+  const times = computeSolarTimes(lat, lng, date)
+  const dayStart = getSolarDayStart(lng, date) - lng / 360 * DAY_MS
+  const polarRise = times.polar === 'day' ? new Date(dayStart) : times.solarNoon
+  const polarSet = times.polar === 'day' ? new Date(dayStart + DAY_MS) : times.solarNoon
 
+  const sunrise = times.sunrise ?? polarRise
+  const sunset = times.sunset ?? polarSet
+  return {
+    sunrise,
+    sunset,
+    civilDawn: times.civilDawn ?? sunrise,
+    civilDusk: times.civilDusk ?? sunset,
+    solarNoon: times.solarNoon,
+    polar: times.polar,
+  }
+}
+
+/**
+ * 使用 sunrise-sunset.org 交叉校验本地计算结果，仅记录偏差
+ */
+async function crossCheckSunriseInfo(ctx: Context, config: Config, lat: number, lng: number, date: Date, info: SunriseInfo) {
+  const day = new Date(getSolarDayStart(lng, date)).toISOString().slice(0, 10)
+  const url = `https://api.sunrise-sunset.org/json?lat=${lat}&lng=${lng}&formatted=0&date=${day}`
+  const data = await ctx.http.get(url, { timeout: 8000 })
   if (data.status !== 'OK') {
-    throw new Error('Failed to fetch sunrise info')
+    throw new Error(`sunrise-sunset.org returned ${data.status}`)
   }
 
-  return {
-    sunrise: new Date(data.results.sunrise),
-    sunset: new Date(data.results.sunset),
+  const diffMinutes = Math.max(
+    Math.abs(new Date(data.results.sunrise).getTime() - info.sunrise.getTime()),
+    Math.abs(new Date(data.results.sunset).getTime() - info.sunset.getTime())
+  ) / 60000
+  if (diffMinutes > CROSS_CHECK_TOLERANCE_MINUTES) {
+    ctx.logger('pig').warn(`Sunrise cross-check mismatch at ${lat},${lng} on ${day}: ${diffMinutes.toFixed(1)} min`)
+  } else if (config.debug) {
+    ctx.logger('pig').debug(`Sunrise cross-check ok at ${lat},${lng} on ${day}: ${diffMinutes.toFixed(1)} min`)
   }
 }
+
+/**
+ * 获取指定经纬度当地日期的日出日落时间（离线计算，带按天缓存）
+ */
+export async function getSunriseInfo(ctx: Context, config: Config, lat: number, lng: number, date: Date | string = 'today'): Promise<SunriseInfo> {
+  const target = normalizeDate(date)
+  const today = getSolarDayStart(0)
+  if (sunriseCacheDay !== today) {
+    sunriseCache.clear()
+    sunriseCacheDay = today
+  }
+
+  const key = `${lat.toFixed(4)},${lng.toFixed(4)},${getSolarDayStart(lng, target)}`
+  const cached = sunriseCache.get(key)
+  if (cached) return cached
+
+  const info = computeSunriseInfo(lat, lng, target)
+  sunriseCache.set(key, info)
+
+  if (config.sunriseApiCrossCheck) {
+    crossCheckSunriseInfo(ctx, config, lat, lng, target, info).catch(e => {
+      ctx.logger('pig').warn(`Sunrise cross-check failed: ${e}`)
+    })
+  }
+
+  return info
+}
@@ -1,9 +1,20 @@
 import { Context } from 'koishi'
 import '../types'
-import { Config } from '../config'
-import { LOCATIONS, Location } from '../constants'
+import { AchievementRule, Config, DEFAULT_TRAVEL_MESSAGE_TEMPLATE } from '../config'
+import { Location } from '../constants'
 import { generateFootprintCard, CardData } from './card'
-import { generateLocationWithLLM, getRandomStaticLocation } from './location'
+import { resolveLocation } from './provider'
+import { getTravelHistory, isNewCountry } from './history'
+import { getGuildRegionFilter } from './region'
+import { getRouteOrigin } from './route'
+import { SouvenirDrop, dropSouvenir } from './souvenir'
+import { evaluateAchievements } from './achievement'
+import { getDistanceFromHomeKm, getUserHome } from './home'
+import { foldTravelLogs, getCountryStats, sumCountryStats } from './countryStat'
+import { formatDistanceKm, getGreatCircleDistanceKm, isValidCoordinate } from '../utils/geo'
+import { TemplateVariables, getLocationTemplateVariables, pickTemplate, renderTemplate } from '../utils/template'
+import { formatLocalTime } from '../utils/timezone'
+import { resolveCountryCodes } from '../utils/countryMapping'
 
 export interface TravelResult {
   location: Location
@@ -11,6 +22,16 @@ export interface TravelResult {
   imageUrl: string | null
   isAIGC: boolean
   msg: string
+  // 本次旅行距离上一次旅行的距离（公里）
+  distanceKm: number
+  // 累计飞行距离（公里）
+  totalDistanceKm: number
+  // 目的地距离用户家乡的距离（公里），未设置家乡时为 null
+  homeDistanceKm: number | null
+  // 本次旅行掉落的纪念品（未启用或掉落失败时为空）
+  souvenir?: SouvenirDrop
+  // 本次旅行后新解锁的成就
+  badges: AchievementRule[]
 }
 
 export interface UserInfo {
@@ -19,23 +40,82 @@ export interface UserInfo {
   avatarUrl: string
 }
 
+/**
+ * 获取用户最近一次旅行记录（跨群）
+ */
+export async function getLastTravelLog(ctx: Context, userId: string, platform: string) {
+  const [log] = await ctx.database.get('pig_travel_log', { userId, platform }, {
+    sort: { timestamp: 'desc' },
+    limit: 1,
+  })
+  return log
+}
+
+/**
+ * 获取用户累计旅行次数与飞行距离（公里，跨群，来自终身统计）
+ */
+export async function getUserTravelTotals(ctx: Context, userId: string, platform: string): Promise<{ tripCount: number; totalDistanceKm: number }> {
+  return sumCountryStats(await getCountryStats(ctx, platform, { userId }))
+}
+
+/**
+ * 旅行消息可用的模板列表：配置了随机模板时使用随机模板，否则使用单条模板
+ */
+function getTravelMessageTemplates(config: Config): string[] {
+  const templates = (config.travelMessageTemplates ?? []).filter(template => template?.trim())
+  return templates.length ? templates : [config.travelMessageTemplate]
+}
+
 export async function triggerTravelSequence(ctx: Context, config: Config, userInfo: UserInfo, platform: string, guildId: string = ''): Promise<TravelResult> {
-  // Get location - use LLM if enabled, otherwise use static locations
-  let location: Location
-  if (config.llmLocationEnabled && ctx.chatluna) {
-    location = await generateLocationWithLLM(ctx, config)
-  } else {
-    location = getRandomStaticLocation()
-  }
+  // 读取用户近期旅行历史，用于目的地去重
+  const history = await getTravelHistory(ctx, userInfo.userId, platform, config.travelHistoryDays ?? 7)
+  // 读取群组目的地主题与地区过滤
+  const regionFilter = await getGuildRegionFilter(ctx, platform, guildId)
+  // 上一次旅行记录：用于路线模式与距离计算
+  const lastLog = await getLastTravelLog(ctx, userInfo.userId, platform)
+
+  // 按配置的地点提供者顺序获取目的地
+  const location = await resolveLocation(ctx, config, {
+    userId: userInfo.userId,
+    platform,
+    guildId,
+    history,
+    regionFilter,
+    route: config.routeMode ? getRouteOrigin(lastLog) : undefined,
+  })
 
   let imageBuffer: Buffer | null = null
   let imageUrl: string | null = null
   let isAIGC = false
 
-  // 使用中文模板
-  const msg = config.travelMessageTemplate
-      .replace('{landmark}', location.landmarkZh || location.landmark)
-      .replace('{country}', location.countryZh || location.country)
+  // 计算与上一次旅行之间的距离
+  let distanceKm = 0
+  if (lastLog && isValidCoordinate(lastLog.latitude, lastLog.longitude) && isValidCoordinate(location.latitude, location.longitude)) {
+    distanceKm = getGreatCircleDistanceKm(lastLog.latitude, lastLog.longitude, location.latitude, location.longitude)
+  }
+  const totals = await getUserTravelTotals(ctx, userInfo.userId, platform)
+  const totalDistanceKm = totals.totalDistanceKm + distanceKm
+  const home = await getUserHome(ctx, platform, userInfo.userId)
+  const homeDistanceKm = getDistanceFromHomeKm(home, location.latitude, location.longitude)
+
+  // 模板变量：地点、用户、目的地当地时间、第几次旅行、是否首次到访该国、距离
+  const now = new Date()
+  const templateVariables: TemplateVariables = {
+    username: userInfo.username || userInfo.userId,
+    userId: userInfo.userId,
+    localTime: formatLocalTime(location.timezone, now),
+    tripNumber: totals.tripCount + 1,
+    newCountry: isNewCountry(location, history),
+    distanceKm: formatDistanceKm(distanceKm),
+    totalDistanceKm: formatDistanceKm(totalDistanceKm),
+    homeDistanceKm: homeDistanceKm === null ? null : formatDistanceKm(homeDistanceKm),
+  }
+
+  // 旅行消息使用中文地名，随机选择一条模板
+  const msg = renderTemplate(
+    pickTemplate(getTravelMessageTemplates(config), DEFAULT_TRAVEL_MESSAGE_TEMPLATE),
+    { ...getLocationTemplateVariables(location, 'zh'), ...templateVariables }
+  ).trim()
 
   // 只有在图片模式下才处理图片
   if (config.outputMode === 'image') {
@@ -46,9 +126,7 @@ export async function triggerTravelSequence(ctx: Context, config: Config, userIn
       isAIGC = true
       ctx.logger('pig').info(`使用 media-luna 生成 AIGC 图片: ${userInfo.userId} @ ${location.landmark}`)
 
-      const prompt = config.aigcPrompt
-        .replace('{landmark}', location.landmark)
-        .replace('{country}', location.country)
+      const prompt = renderTemplate(config.aigcPrompt, { ...getLocationTemplateVariables(location, 'en'), ...templateVariables })
 
       try {
         const result = await ctx.mediaLuna.generateByName({
@@ -85,7 +163,7 @@ export async function triggerTravelSequence(ctx: Context, config: Config, userIn
 
     // 生成卡片
     try {
-      const cardData: CardData = { location, msg }
+      const cardData: CardData = { location, msg, totalDistanceKm }
       const cardResult = await generateFootprintCard(ctx, config, cardData, userInfo, platform, backgroundUrl)
       imageBuffer = cardResult.buffer
 
@@ -109,27 +187,61 @@ export async function triggerTravelSequence(ctx: Context, config: Config, userIn
     }
   }
 
-  // 记录到数据库
-  const now = new Date()
-  await ctx.database.create('pig_travel_log', {
+  // 记录到数据库，并计入终身国家统计
+  const log = await ctx.database.create('pig_travel_log', {
     userId: userInfo.userId,
     platform,
     guildId,
     timestamp: now,
     country: location.country,
     countryZh: location.countryZh || location.country,
+    ...resolveCountryCodes(location.country, location.countryZh),
     location: location.landmark,
     locationZh: location.landmarkZh || location.landmark,
     timezone: location.timezone || 'UTC',
+    latitude: location.latitude,
+    longitude: location.longitude,
+    distanceKm,
+    landscapeUrl: location.landscapeUrl,
     imagePath: imageUrl || '', // 存储 URL 或空
     isAIGC,
+    aggregated: false,
   })
+  try {
+    await foldTravelLogs(ctx, [log])
+  } catch (e) {
+    // 未汇总的记录会在启动或清理时补汇总
+    ctx.logger('pig').warn(`汇总旅行统计失败: ${e}`)
+  }
+
+  // 掉落纪念品
+  let souvenir: SouvenirDrop | undefined
+  if (config.souvenirEnabled ?? true) {
+    try {
+      souvenir = await dropSouvenir(ctx, userInfo.userId, platform)
+    } catch (e) {
+      ctx.logger('pig').warn(`掉落纪念品失败: ${e}`)
+    }
+  }
+
+  // 检查成就
+  let badges: AchievementRule[] = []
+  try {
+    badges = await evaluateAchievements(ctx, config, userInfo.userId, platform, guildId)
+  } catch (e) {
+    ctx.logger('pig').warn(`检查成就失败: ${e}`)
+  }
 
   return {
     location,
     imageBuffer,
     imageUrl,
     isAIGC,
-    msg
+    msg,
+    distanceKm,
+    totalDistanceKm,
+    homeDistanceKm,
+    souvenir,
+    badges,
   }
 }
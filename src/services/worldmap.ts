@@ -2,7 +2,12 @@ import { Context } from 'koishi'
 import { promises as fs } from 'fs'
 import { resolve } from 'path'
 import { Config } from '../config'
-import { getCountryAliasNamesEn, getCountryISOCode, getPrimaryCountryNameEn, getPrimaryCountryNameZh } from '../utils/countryMapping'
+import { getContinentBreakdown, getContinentByISO, getCountryAliasNamesEn, getCountryDisplayName, getCountryFlagEmoji, getSubRegionByISO } from '../utils/countryMapping'
+import { formatDistanceKm } from '../utils/geo'
+import { RoutePoint, getRoutePoints, injectRouteIntoMapSvg } from './route'
+import { UserHome, getDistanceFromHomeKm, getUserHome } from './home'
+import { getCountryStats, sumCountryStats } from './countryStat'
+import { PigCountryStat } from '../database'
 
 export interface VisitedCountry {
   isoCode: string
@@ -21,11 +26,17 @@ export interface WorldMapData {
   visitedCountries: VisitedCountry[]
   totalCountries: number
   totalTrips: number
+  // 累计飞行距离（公里）
+  totalDistanceKm: number
   firstTrip?: Date
   lastTrip?: Date
   backgroundImage?: string
   isGuildMode?: boolean
   uniqueUsers?: number
+  // 路线模式：按时间顺序的旅行坐标
+  route?: RoutePoint[]
+  // 离家最远的一次旅行（公里），未设置家乡时为空
+  farthestFromHomeKm?: number
 }
 
 const TOTAL_COUNTRY_COUNT = 195
@@ -69,131 +80,119 @@ export async function getWorldMapSvg(ctx: Context): Promise<string> {
   throw new Error(`Official world map SVG not found or invalid. Tried: ${errors.join('; ')}`)
 }
 
-export async function getUserVisitedCountries(
-  ctx: Context,
-  userId: string,
-  platform: string,
-  guildId?: string
-): Promise<{
+/**
+ * 由终身国家统计汇总足迹：按 ISO 代码合并各群的记录
+ */
+function summarizeVisitedCountries(stats: PigCountryStat[]): {
   visitedCountries: VisitedCountry[]
-  totalTrips: number
   firstTrip?: Date
   lastTrip?: Date
-}> {
-  const query: Record<string, string> = { userId, platform }
-  if (guildId) query.guildId = guildId
-
-  const logs = await ctx.database.get('pig_travel_log', query)
-  const totalTrips = logs.length
-
-  if (!logs.length) {
-    return { visitedCountries: [], totalTrips: 0 }
-  }
-
+} {
   let firstTrip: Date | undefined
   let lastTrip: Date | undefined
   const countryMap = new Map<string, VisitedCountry>()
 
-  for (const log of logs) {
-    const visitDate = new Date(log.timestamp)
-    if (!firstTrip || visitDate < firstTrip) firstTrip = visitDate
-    if (!lastTrip || visitDate > lastTrip) lastTrip = visitDate
+  for (const stat of stats) {
+    const firstVisit = new Date(stat.firstVisitedAt)
+    const lastVisit = new Date(stat.lastVisitedAt)
+    if (!firstTrip || firstVisit < firstTrip) firstTrip = firstVisit
+    if (!lastTrip || lastVisit > lastTrip) lastTrip = lastVisit
 
-    const iso =
-      getCountryISOCode(log.country) ||
-      getCountryISOCode(log.countryZh) ||
-      null
+    const iso = stat.countryIso || null
 
     if (!iso) continue
 
     const existing = countryMap.get(iso)
     if (!existing) {
-      const canonicalNameEn = getPrimaryCountryNameEn(iso) || log.country
-      const canonicalNameZh = getPrimaryCountryNameZh(iso) || log.countryZh || log.country
+      const canonicalNameEn = getCountryDisplayName(iso, 'en') || stat.country
+      const canonicalNameZh = getCountryDisplayName(iso, 'zh') || stat.countryZh || stat.country
       countryMap.set(iso, {
         isoCode: iso,
         countryName: canonicalNameEn,
         countryNameZh: canonicalNameZh,
-        visitCount: 1,
-        firstVisit: visitDate,
-        lastVisit: visitDate,
+        visitCount: stat.visits,
+        firstVisit,
+        lastVisit,
       })
       continue
     }
 
-    existing.visitCount += 1
-    if (visitDate < existing.firstVisit) existing.firstVisit = visitDate
-    if (visitDate > existing.lastVisit) existing.lastVisit = visitDate
+    existing.visitCount += stat.visits
+    if (firstVisit < existing.firstVisit) existing.firstVisit = firstVisit
+    if (lastVisit > existing.lastVisit) existing.lastVisit = lastVisit
   }
 
   const visitedCountries = Array.from(countryMap.values()).sort(
     (a, b) => b.visitCount - a.visitCount
   )
 
-  return { visitedCountries, totalTrips, firstTrip, lastTrip }
+  return { visitedCountries, firstTrip, lastTrip }
 }
 
-export async function getGuildVisitedCountries(
+export async function getUserVisitedCountries(
   ctx: Context,
-  guildId: string,
-  platform: string
+  userId: string,
+  platform: string,
+  guildId?: string,
+  home?: UserHome | null
 ): Promise<{
   visitedCountries: VisitedCountry[]
   totalTrips: number
+  totalDistanceKm: number
   firstTrip?: Date
   lastTrip?: Date
-  uniqueUsers: number
+  route: RoutePoint[]
+  farthestFromHomeKm?: number
 }> {
-  const logs = await ctx.database.get('pig_travel_log', { guildId, platform })
-  const totalTrips = logs.length
+  // 国家、次数与里程读取终身统计，不受旅行日志清理影响
+  const stats = await getCountryStats(ctx, platform, { userId, guildId })
+  const { tripCount: totalTrips, totalDistanceKm } = sumCountryStats(stats)
 
-  if (!logs.length) {
-    return { visitedCountries: [], totalTrips: 0, uniqueUsers: 0 }
+  if (!stats.length) {
+    return { visitedCountries: [], totalTrips: 0, totalDistanceKm: 0, route: [] }
   }
 
-  let firstTrip: Date | undefined
-  let lastTrip: Date | undefined
-  const countryMap = new Map<string, VisitedCountry>()
-  const userSet = new Set<string>()
+  const { visitedCountries, firstTrip, lastTrip } = summarizeVisitedCountries(stats)
 
-  for (const log of logs) {
-    userSet.add(log.userId)
-    const visitDate = new Date(log.timestamp)
-    if (!firstTrip || visitDate < firstTrip) firstTrip = visitDate
-    if (!lastTrip || visitDate > lastTrip) lastTrip = visitDate
+  // 路线与离家最远距离需要坐标，只基于保留期内的旅行日志
+  const query: Record<string, string> = { userId, platform }
+  if (guildId) query.guildId = guildId
+  const logs = await ctx.database.get('pig_travel_log', query)
 
-    const iso =
-      getCountryISOCode(log.country) ||
-      getCountryISOCode(log.countryZh) ||
-      null
+  let farthestFromHomeKm: number | undefined
+  for (const log of logs) {
+    const homeDistanceKm = getDistanceFromHomeKm(home ?? null, log.latitude, log.longitude)
+    if (homeDistanceKm !== null && (farthestFromHomeKm === undefined || homeDistanceKm > farthestFromHomeKm)) {
+      farthestFromHomeKm = homeDistanceKm
+    }
+  }
 
-    if (!iso) continue
+  return { visitedCountries, totalTrips, totalDistanceKm, firstTrip, lastTrip, route: getRoutePoints(logs), farthestFromHomeKm }
+}
 
-    const existing = countryMap.get(iso)
-    if (!existing) {
-      const canonicalNameEn = getPrimaryCountryNameEn(iso) || log.country
-      const canonicalNameZh = getPrimaryCountryNameZh(iso) || log.countryZh || log.country
-      countryMap.set(iso, {
-        isoCode: iso,
-        countryName: canonicalNameEn,
-        countryNameZh: canonicalNameZh,
-        visitCount: 1,
-        firstVisit: visitDate,
-        lastVisit: visitDate,
-      })
-      continue
-    }
+export async function getGuildVisitedCountries(
+  ctx: Context,
+  guildId: string,
+  platform: string
+): Promise<{
+  visitedCountries: VisitedCountry[]
+  totalTrips: number
+  totalDistanceKm: number
+  firstTrip?: Date
+  lastTrip?: Date
+  uniqueUsers: number
+}> {
+  const stats = await getCountryStats(ctx, platform, { guildId })
+  const { tripCount: totalTrips, totalDistanceKm } = sumCountryStats(stats)
 
-    existing.visitCount += 1
-    if (visitDate < existing.firstVisit) existing.firstVisit = visitDate
-    if (visitDate > existing.lastVisit) existing.lastVisit = visitDate
+  if (!stats.length) {
+    return { visitedCountries: [], totalTrips: 0, totalDistanceKm: 0, uniqueUsers: 0 }
   }
 
-  const visitedCountries = Array.from(countryMap.values()).sort(
-    (a, b) => b.visitCount - a.visitCount
-  )
+  const { visitedCountries, firstTrip, lastTrip } = summarizeVisitedCountries(stats)
+  const uniqueUsers = new Set(stats.map(stat => stat.userId)).size
 
-  return { visitedCountries, totalTrips, firstTrip, lastTrip, uniqueUsers: userSet.size }
+  return { visitedCountries, totalTrips, totalDistanceKm, firstTrip, lastTrip, uniqueUsers }
 }
 
 export async function prepareWorldMapData(
@@ -205,8 +204,9 @@ export async function prepareWorldMapData(
   guildId?: string,
   backgroundImage?: string
 ): Promise<WorldMapData> {
-  const { visitedCountries, totalTrips, firstTrip, lastTrip } =
-    await getUserVisitedCountries(ctx, userId, platform, guildId)
+  const home = await getUserHome(ctx, platform, userId)
+  const { visitedCountries, totalTrips, totalDistanceKm, firstTrip, lastTrip, route, farthestFromHomeKm } =
+    await getUserVisitedCountries(ctx, userId, platform, guildId, home)
 
   return {
     userId,
@@ -216,9 +216,12 @@ export async function prepareWorldMapData(
     visitedCountries,
     totalCountries: visitedCountries.length,
     totalTrips,
+    totalDistanceKm,
     firstTrip,
     lastTrip,
     backgroundImage,
+    route,
+    farthestFromHomeKm,
   }
 }
 
@@ -230,7 +233,7 @@ export async function prepareGuildWorldMapData(
   guildAvatarUrl?: string,
   backgroundImage?: string
 ): Promise<WorldMapData> {
-  const { visitedCountries, totalTrips, firstTrip, lastTrip, uniqueUsers } =
+  const { visitedCountries, totalTrips, totalDistanceKm, firstTrip, lastTrip, uniqueUsers } =
     await getGuildVisitedCountries(ctx, guildId, platform)
 
   return {
@@ -241,6 +244,7 @@ export async function prepareGuildWorldMapData(
     visitedCountries,
     totalCountries: visitedCountries.length,
     totalTrips,
+    totalDistanceKm,
     firstTrip,
     lastTrip,
     backgroundImage,
@@ -362,7 +366,12 @@ export async function generateWorldMapCard(
   const svg = await getWorldMapSvg(ctx)
   const svgSupportsHighlight = hasCountrySelectablePaths(svg)
   const highlightEnabled = svgSupportsHighlight && !config.worldMapOfficialOnly
-  const processedSvg = highlightEnabled ? processMapSvg(svg, data.visitedCountries) : svg
+  const highlightedSvg = highlightEnabled ? processMapSvg(svg, data.visitedCountries) : svg
+  const routeEnabled = config.routeMode && !data.isGuildMode && (data.route?.length ?? 0) >= 2
+  const processedSvg = routeEnabled ? injectRouteIntoMapSvg(highlightedSvg, data.route) : highlightedSvg
+  const routeLegendHtml = routeEnabled
+    ? '<div class="legend-item"><span class="legend-color" style="background:#E85D75"></span> Route</div>'
+    : ''
   const tiandituMapUrl = buildTiandituStaticImageUrl(config)
 
   const topDestinations = data.visitedCountries.slice(0, 6)
@@ -423,6 +432,7 @@ export async function generateWorldMapCard(
         <div class="destination-item">
           <div class="destination-rank">#${rank}</div>
           <div class="destination-name">
+            <span class="flag">${getCountryFlagEmoji(item.isoCode)}</span>
             <span class="zh-name">${escapeHtml(item.countryNameZh)}</span>
             <span class="en-name">/ ${escapeHtml(item.countryName)}</span>
           </div>
@@ -432,6 +442,37 @@ export async function generateWorldMapCard(
     }).join('')
     : `<div class="destination-empty">还没有旅行记录</div>`
 
+  // 各大洲下去过的联合国次区域（如 西欧 3 · 南欧 2）
+  const subRegionsByContinent = new Map<string, Map<string, number>>()
+  for (const { isoCode } of data.visitedCountries) {
+    const continent = getContinentByISO(isoCode)
+    const subRegion = getSubRegionByISO(isoCode)
+    if (!continent || !subRegion) continue
+    const counts = subRegionsByContinent.get(continent) || new Map<string, number>()
+    counts.set(subRegion.zh, (counts.get(subRegion.zh) ?? 0) + 1)
+    subRegionsByContinent.set(continent, counts)
+  }
+
+  // 大洲分布：去过的国家数 / 该洲国家总数
+  const continentsHtml = getContinentBreakdown(data.visitedCountries.map(item => item.isoCode), true)
+    .map(item => {
+      const percent = item.total ? Math.round((item.visited / item.total) * 100) : 0
+      const subRegions = [...(subRegionsByContinent.get(item.continent) ?? new Map<string, number>())]
+        .sort((a, b) => b[1] - a[1])
+        .map(([name, count]) => `${escapeHtml(name)} ${count}`)
+        .join(' · ')
+      return `
+        <div class="continent-item${item.visited ? '' : ' is-empty'}">
+          <div class="continent-row">
+            <span class="continent-name">${item.en}<span class="continent-zh">${item.zh}</span></span>
+            <span class="continent-count">${item.visited}/${item.total}</span>
+          </div>
+          <div class="continent-bar"><div class="continent-bar-fill" style="width: ${percent}%"></div></div>
+          ${subRegions ? `<div class="continent-subregions">${subRegions}</div>` : ''}
+        </div>
+      `
+    }).join('')
+
   const html = `
 <!DOCTYPE html>
 <html>
@@ -839,6 +880,73 @@ export async function generateWorldMapCard(
       border-radius: 2px;
     }
 
+    .flag {
+      margin-right: 8px;
+    }
+
+    .bottom-grid {
+      display: grid;
+      grid-template-columns: 1fr 300px;
+      gap: 48px;
+      align-items: start;
+    }
+
+    .continents-section {
+      position: relative;
+      z-index: 1;
+    }
+
+    .continent-item {
+      padding: 14px 0;
+      border-bottom: 1px dashed #ccc;
+    }
+
+    .continent-item.is-empty {
+      opacity: 0.45;
+    }
+
+    .continent-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: baseline;
+      margin-bottom: 8px;
+    }
+
+    .continent-name {
+      font-size: 16px;
+      font-weight: 700;
+    }
+
+    .continent-zh {
+      font-size: 13px;
+      color: #888;
+      font-weight: 400;
+      margin-left: 6px;
+    }
+
+    .continent-count {
+      font-family: "Noto Serif SC", serif;
+      font-size: 18px;
+      font-weight: 700;
+      color: #254E58;
+    }
+
+    .continent-bar {
+      height: 6px;
+      background: #e6e1d8;
+    }
+
+    .continent-bar-fill {
+      height: 100%;
+      background: #4F9D9D;
+    }
+
+    .continent-subregions {
+      margin-top: 6px;
+      font-size: 12px;
+      color: #888;
+    }
+
     .destination-empty {
       padding: 40px;
       text-align: center;
@@ -966,24 +1074,33 @@ export async function generateWorldMapCard(
         <div class="legend-item"><span class="legend-color" style="background:#88BDBC"></span> 1-2</div>
         <div class="legend-item"><span class="legend-color" style="background:#4F9D9D"></span> 3-4</div>
         <div class="legend-item"><span class="legend-color" style="background:#254E58"></span> 5+</div>
+        ${routeLegendHtml}
       </div>
       ` : `
       <div class="legend">
         <div class="legend-item"><span class="legend-color" style="background:#f0f0f0"></span> Official Border Map</div>
         <div class="legend-item">Visit intensity is shown in stats and destination ranking.</div>
+        ${routeLegendHtml}
       </div>
       `}
     </div>
 
-    <div class="destinations-section">
-      <div class="section-title">TOP DESTINATIONS</div>
-      ${destinationsHtml}
+    <div class="bottom-grid">
+      <div class="destinations-section">
+        <div class="section-title">TOP DESTINATIONS</div>
+        ${destinationsHtml}
+      </div>
+
+      <div class="continents-section">
+        <div class="section-title">CONTINENTS</div>
+        ${continentsHtml}
+      </div>
     </div>
 
     <div class="footer">
       <div class="barcode"></div>
       <div>
-        <div class="footer-dates">First: ${formatDate(data.firstTrip)} | Last: ${formatDate(data.lastTrip)}</div>
+        <div class="footer-dates">First: ${formatDate(data.firstTrip)} | Last: ${formatDate(data.lastTrip)} | Flown: ${formatDistanceKm(data.totalDistanceKm || 0)} km${data.farthestFromHomeKm !== undefined ? ` | Farthest from home: ${formatDistanceKm(data.farthestFromHomeKm)} km` : ''}</div>
         <div class="brand-box">PIG TRAVEL</div>
       </div>
     </div>
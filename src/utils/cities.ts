@@ -0,0 +1,202 @@
+import { getGreatCircleDistanceKm } from './geo'
+
+export interface City {
+  name: string
+  nameZh: string
+  countryIso: string
+  timezone: string
+  latitude: number
+  longitude: number
+}
+
+// 内置城市表（离线解析 pig.home 输入），格式：英文名|中文名|国家|IANA 时区|纬度|经度
+const RAW_CITIES = `
+Beijing|北京|CN|Asia/Shanghai|39.9042|116.4074
+Shanghai|上海|CN|Asia/Shanghai|31.2304|121.4737
+Guangzhou|广州|CN|Asia/Shanghai|23.1291|113.2644
+Shenzhen|深圳|CN|Asia/Shanghai|22.5431|114.0579
+Tianjin|天津|CN|Asia/Shanghai|39.3434|117.3616
+Chongqing|重庆|CN|Asia/Shanghai|29.5630|106.5516
+Chengdu|成都|CN|Asia/Shanghai|30.5728|104.0668
+Hangzhou|杭州|CN|Asia/Shanghai|30.2741|120.1551
+Nanjing|南京|CN|Asia/Shanghai|32.0603|118.7969
+Suzhou|苏州|CN|Asia/Shanghai|31.2989|120.5853
+Wuhan|武汉|CN|Asia/Shanghai|30.5928|114.3055
+Xi'an|西安|CN|Asia/Shanghai|34.3416|108.9398
+Changsha|长沙|CN|Asia/Shanghai|28.2282|112.9388
+Zhengzhou|郑州|CN|Asia/Shanghai|34.7466|113.6254
+Jinan|济南|CN|Asia/Shanghai|36.6512|117.1201
+Qingdao|青岛|CN|Asia/Shanghai|36.0671|120.3826
+Hefei|合肥|CN|Asia/Shanghai|31.8206|117.2272
+Fuzhou|福州|CN|Asia/Shanghai|26.0745|119.2965
+Xiamen|厦门|CN|Asia/Shanghai|24.4798|118.0894
+Nanchang|南昌|CN|Asia/Shanghai|28.6820|115.8579
+Kunming|昆明|CN|Asia/Shanghai|25.0389|102.7183
+Guiyang|贵阳|CN|Asia/Shanghai|26.6470|106.6302
+Nanning|南宁|CN|Asia/Shanghai|22.8170|108.3665
+Haikou|海口|CN|Asia/Shanghai|20.0440|110.1999
+Shenyang|沈阳|CN|Asia/Shanghai|41.8057|123.4315
+Dalian|大连|CN|Asia/Shanghai|38.9140|121.6147
+Changchun|长春|CN|Asia/Shanghai|43.8171|125.3235
+Harbin|哈尔滨|CN|Asia/Shanghai|45.8038|126.5350
+Shijiazhuang|石家庄|CN|Asia/Shanghai|38.0428|114.5149
+Taiyuan|太原|CN|Asia/Shanghai|37.8706|112.5489
+Hohhot|呼和浩特|CN|Asia/Shanghai|40.8424|111.7490
+Lanzhou|兰州|CN|Asia/Shanghai|36.0611|103.8343
+Xining|西宁|CN|Asia/Shanghai|36.6171|101.7782
+Yinchuan|银川|CN|Asia/Shanghai|38.4872|106.2309
+Urumqi|乌鲁木齐|CN|Asia/Urumqi|43.8256|87.6168
+Lhasa|拉萨|CN|Asia/Shanghai|29.6520|91.1721
+Hong Kong|香港|HK|Asia/Hong_Kong|22.3193|114.1694
+Macau|澳门|MO|Asia/Macau|22.1987|113.5439
+Taipei|台北|TW|Asia/Taipei|25.0330|121.5654
+Kaohsiung|高雄|TW|Asia/Taipei|22.6273|120.3014
+Tokyo|东京|JP|Asia/Tokyo|35.6762|139.6503
+Osaka|大阪|JP|Asia/Tokyo|34.6937|135.5023
+Kyoto|京都|JP|Asia/Tokyo|35.0116|135.7681
+Sapporo|札幌|JP|Asia/Tokyo|43.0618|141.3545
+Fukuoka|福冈|JP|Asia/Tokyo|33.5904|130.4017
+Seoul|首尔|KR|Asia/Seoul|37.5665|126.9780
+Busan|釜山|KR|Asia/Seoul|35.1796|129.0756
+Pyongyang|平壤|KP|Asia/Pyongyang|39.0392|125.7625
+Ulaanbaatar|乌兰巴托|MN|Asia/Ulaanbaatar|47.8864|106.9057
+Singapore|新加坡|SG|Asia/Singapore|1.3521|103.8198
+Kuala Lumpur|吉隆坡|MY|Asia/Kuala_Lumpur|3.1390|101.6869
+Bangkok|曼谷|TH|Asia/Bangkok|13.7563|100.5018
+Chiang Mai|清迈|TH|Asia/Bangkok|18.7883|98.9853
+Hanoi|河内|VN|Asia/Ho_Chi_Minh|21.0278|105.8342
+Ho Chi Minh City|胡志明市|VN|Asia/Ho_Chi_Minh|10.8231|106.6297
+Manila|马尼拉|PH|Asia/Manila|14.5995|120.9842
+Jakarta|雅加达|ID|Asia/Jakarta|-6.2088|106.8456
+Bali|巴厘岛|ID|Asia/Makassar|-8.3405|115.0920
+Phnom Penh|金边|KH|Asia/Phnom_Penh|11.5564|104.9282
+Yangon|仰光|MM|Asia/Yangon|16.8409|96.1735
+New Delhi|新德里|IN|Asia/Kolkata|28.6139|77.2090
+Mumbai|孟买|IN|Asia/Kolkata|19.0760|72.8777
+Bangalore|班加罗尔|IN|Asia/Kolkata|12.9716|77.5946
+Kathmandu|加德满都|NP|Asia/Kathmandu|27.7172|85.3240
+Dhaka|达卡|BD|Asia/Dhaka|23.8103|90.4125
+Colombo|科伦坡|LK|Asia/Colombo|6.9271|79.8612
+Karachi|卡拉奇|PK|Asia/Karachi|24.8607|67.0011
+Tashkent|塔什干|UZ|Asia/Tashkent|41.2995|69.2401
+Almaty|阿拉木图|KZ|Asia/Almaty|43.2220|76.8512
+Tehran|德黑兰|IR|Asia/Tehran|35.6892|51.3890
+Dubai|迪拜|AE|Asia/Dubai|25.2048|55.2708
+Doha|多哈|QA|Asia/Qatar|25.2854|51.5310
+Riyadh|利雅得|SA|Asia/Riyadh|24.7136|46.6753
+Istanbul|伊斯坦布尔|TR|Europe/Istanbul|41.0082|28.9784
+Jerusalem|耶路撒冷|IL|Asia/Jerusalem|31.7683|35.2137
+Moscow|莫斯科|RU|Europe/Moscow|55.7558|37.6173
+Saint Petersburg|圣彼得堡|RU|Europe/Moscow|59.9311|30.3609
+Novosibirsk|新西伯利亚|RU|Asia/Novosibirsk|55.0084|82.9357
+Vladivostok|符拉迪沃斯托克|RU|Asia/Vladivostok|43.1198|131.8869
+London|伦敦|GB|Europe/London|51.5074|-0.1278
+Edinburgh|爱丁堡|GB|Europe/London|55.9533|-3.1883
+Dublin|都柏林|IE|Europe/Dublin|53.3498|-6.2603
+Paris|巴黎|FR|Europe/Paris|48.8566|2.3522
+Berlin|柏林|DE|Europe/Berlin|52.5200|13.4050
+Munich|慕尼黑|DE|Europe/Berlin|48.1351|11.5820
+Amsterdam|阿姆斯特丹|NL|Europe/Amsterdam|52.3676|4.9041
+Brussels|布鲁塞尔|BE|Europe/Brussels|50.8503|4.3517
+Zurich|苏黎世|CH|Europe/Zurich|47.3769|8.5417
+Vienna|维也纳|AT|Europe/Vienna|48.2082|16.3738
+Prague|布拉格|CZ|Europe/Prague|50.0755|14.4378
+Warsaw|华沙|PL|Europe/Warsaw|52.2297|21.0122
+Budapest|布达佩斯|HU|Europe/Budapest|47.4979|19.0402
+Rome|罗马|IT|Europe/Rome|41.9028|12.4964
+Milan|米兰|IT|Europe/Rome|45.4642|9.1900
+Madrid|马德里|ES|Europe/Madrid|40.4168|-3.7038
+Barcelona|巴塞罗那|ES|Europe/Madrid|41.3851|2.1734
+Lisbon|里斯本|PT|Europe/Lisbon|38.7223|-9.1393
+Athens|雅典|GR|Europe/Athens|37.9838|23.7275
+Stockholm|斯德哥尔摩|SE|Europe/Stockholm|59.3293|18.0686
+Oslo|奥斯陆|NO|Europe/Oslo|59.9139|10.7522
+Copenhagen|哥本哈根|DK|Europe/Copenhagen|55.6761|12.5683
+Helsinki|赫尔辛基|FI|Europe/Helsinki|60.1699|24.9384
+Reykjavik|雷克雅未克|IS|Atlantic/Reykjavik|64.1466|-21.9426
+Kyiv|基辅|UA|Europe/Kyiv|50.4501|30.5234
+Cairo|开罗|EG|Africa/Cairo|30.0444|31.2357
+Casablanca|卡萨布兰卡|MA|Africa/Casablanca|33.5731|-7.5898
+Lagos|拉各斯|NG|Africa/Lagos|6.5244|3.3792
+Nairobi|内罗毕|KE|Africa/Nairobi|-1.2921|36.8219
+Addis Ababa|亚的斯亚贝巴|ET|Africa/Addis_Ababa|8.9806|38.7578
+Johannesburg|约翰内斯堡|ZA|Africa/Johannesburg|-26.2041|28.0473
+Cape Town|开普敦|ZA|Africa/Johannesburg|-33.9249|18.4241
+New York|纽约|US|America/New_York|40.7128|-74.0060
+Washington|华盛顿|US|America/New_York|38.9072|-77.0369
+Boston|波士顿|US|America/New_York|42.3601|-71.0589
+Miami|迈阿密|US|America/New_York|25.7617|-80.1918
+Atlanta|亚特兰大|US|America/New_York|33.7490|-84.3880
+Chicago|芝加哥|US|America/Chicago|41.8781|-87.6298
+Houston|休斯顿|US|America/Chicago|29.7604|-95.3698
+Dallas|达拉斯|US|America/Chicago|32.7767|-96.7970
+Denver|丹佛|US|America/Denver|39.7392|-104.9903
+Phoenix|菲尼克斯|US|America/Phoenix|33.4484|-112.0740
+Los Angeles|洛杉矶|US|America/Los_Angeles|34.0522|-118.2437
+San Francisco|旧金山|US|America/Los_Angeles|37.7749|-122.4194
+Seattle|西雅图|US|America/Los_Angeles|47.6062|-122.3321
+Las Vegas|拉斯维加斯|US|America/Los_Angeles|36.1699|-115.1398
+Anchorage|安克雷奇|US|America/Anchorage|61.2181|-149.9003
+Honolulu|檀香山|US|Pacific/Honolulu|21.3069|-157.8583
+Toronto|多伦多|CA|America/Toronto|43.6532|-79.3832
+Montreal|蒙特利尔|CA|America/Toronto|45.5019|-73.5674
+Vancouver|温哥华|CA|America/Vancouver|49.2827|-123.1207
+Calgary|卡尔加里|CA|America/Edmonton|51.0447|-114.0719
+Mexico City|墨西哥城|MX|America/Mexico_City|19.4326|-99.1332
+Havana|哈瓦那|CU|America/Havana|23.1136|-82.3666
+Bogota|波哥大|CO|America/Bogota|4.7110|-74.0721
+Lima|利马|PE|America/Lima|-12.0464|-77.0428
+Santiago|圣地亚哥|CL|America/Santiago|-33.4489|-70.6693
+Buenos Aires|布宜诺斯艾利斯|AR|America/Argentina/Buenos_Aires|-34.6037|-58.3816
+Sao Paulo|圣保罗|BR|America/Sao_Paulo|-23.5505|-46.6333
+Rio de Janeiro|里约热内卢|BR|America/Sao_Paulo|-22.9068|-43.1729
+Sydney|悉尼|AU|Australia/Sydney|-33.8688|151.2093
+Melbourne|墨尔本|AU|Australia/Melbourne|-37.8136|144.9631
+Brisbane|布里斯班|AU|Australia/Brisbane|-27.4698|153.0251
+Perth|珀斯|AU|Australia/Perth|-31.9505|115.8605
+Adelaide|阿德莱德|AU|Australia/Adelaide|-34.9285|138.6007
+Auckland|奥克兰|NZ|Pacific/Auckland|-36.8485|174.7633
+Wellington|惠灵顿|NZ|Pacific/Auckland|-41.2865|174.7762
+Suva|苏瓦|FJ|Pacific/Fiji|-18.1416|178.4419
+`
+
+export const CITIES: City[] = RAW_CITIES.trim().split('\n').map(line => {
+  const [name, nameZh, countryIso, timezone, latitude, longitude] = line.split('|')
+  return { name, nameZh, countryIso, timezone, latitude: Number(latitude), longitude: Number(longitude) }
+})
+
+const normalizeCityName = (name: string) => (name || '').trim().toLowerCase().replace(/[\s'’.\-]+/g, '')
+
+const CITY_BY_NAME = CITIES.reduce<Map<string, City>>((acc, city) => {
+  acc.set(normalizeCityName(city.name), city)
+  acc.set(normalizeCityName(city.nameZh), city)
+  // 中文名允许省略“市”
+  acc.set(normalizeCityName(`${city.nameZh}市`), city)
+  return acc
+}, new Map())
+
+/**
+ * 按中英文城市名查找内置城市
+ */
+export function findCity(name: string): City | null {
+  return CITY_BY_NAME.get(normalizeCityName(name)) ?? null
+}
+
+/**
+ * 查找某一 IANA 时区下的第一个内置城市
+ */
+export function findCityByTimezone(timezone: string): City | null {
+  return CITIES.find(city => city.timezone.toLowerCase() === (timezone || '').trim().toLowerCase()) ?? null
+}
+
+/**
+ * 查找距离坐标最近的内置城市及距离（公里）
+ */
+export function findNearestCity(latitude: number, longitude: number): { city: City; distanceKm: number } {
+  let nearest = { city: CITIES[0], distanceKm: Infinity }
+  for (const city of CITIES) {
+    const distanceKm = getGreatCircleDistanceKm(latitude, longitude, city.latitude, city.longitude)
+    if (distanceKm < nearest.distanceKm) nearest = { city, distanceKm }
+  }
+  return nearest
+}
@@ -520,3 +520,193 @@ export function getCountryAliasNamesEn(isoCode: string): string[] {
   const set = PRIMARY_NAMES_BY_ISO.englishAliases.get(isoCode.toUpperCase())
   return set ? Array.from(set.values()) : []
 }
+
+export type ContinentCode = 'AS' | 'EU' | 'AF' | 'NA' | 'SA' | 'OC' | 'AN'
+
+export const CONTINENT_NAMES: Record<ContinentCode, { zh: string; en: string }> = {
+  AS: { zh: '亚洲', en: 'Asia' },
+  EU: { zh: '欧洲', en: 'Europe' },
+  AF: { zh: '非洲', en: 'Africa' },
+  NA: { zh: '北美洲', en: 'North America' },
+  SA: { zh: '南美洲', en: 'South America' },
+  OC: { zh: '大洋洲', en: 'Oceania' },
+  AN: { zh: '南极洲', en: 'Antarctica' },
+}
+
+const RAW_CONTINENT_COUNTRIES: Record<ContinentCode, string> = {
+  AS: 'AE AF AM AZ BD BH BN BT CN CY GE ID IL IN IQ IR JO JP KG KH KP KR KW KZ LA LB LK MM MN MV MY NP OM PH PK PS QA SA SG SY TH TJ TL TM TR UZ VN YE',
+  EU: 'AD AL AT BA BE BG BY CH CZ DE DK EE ES FI FO FR GB GR HR HU IE IS IT LI LT LU LV MC MD ME MK MT NL NO PL PT RO RS RU SE SI SK SM UA VA XK',
+  AF: 'AO BF BI BJ BW CD CF CG CI CM CV DJ DZ EG ER ET GA GH GM GN GQ GW KE KM LR LS LY MA MG ML MR MU MW MZ NA NE NG RW SC SD SL SN SO SS ST SZ TD TG TN TZ UG ZA ZM ZW',
+  NA: 'BB BS BZ CA CR CU DO GL GT HN HT JM MX NI PA PR SV TT US',
+  SA: 'AR BO BR CL CO EC GF GY PE PY SR UY VE',
+  OC: 'AU FJ FM GU KI MH NC NR NZ PF PG PW SB TO TV VU WS',
+  AN: 'AQ',
+}
+
+const ISO_TO_CONTINENT: Record<string, ContinentCode> = Object.entries(RAW_CONTINENT_COUNTRIES)
+  .reduce<Record<string, ContinentCode>>((acc, [continent, codes]) => {
+    for (const iso of codes.split(' ')) acc[iso] = continent as ContinentCode
+    return acc
+  }, {})
+
+export function getContinentByISO(isoCode: string): ContinentCode | null {
+  if (!isoCode) return null
+  return ISO_TO_CONTINENT[isoCode.toUpperCase()] ?? null
+}
+
+export interface SubRegionInfo {
+  // UN M49 地区代码
+  code: string
+  zh: string
+  en: string
+}
+
+// UN M49 次区域（拉美与撒哈拉以南非洲使用中间区域）
+const RAW_SUBREGIONS: Array<SubRegionInfo & { countries: string }> = [
+  { code: '015', zh: '北非', en: 'Northern Africa', countries: 'DZ EG LY MA SD TN' },
+  { code: '014', zh: '东非', en: 'Eastern Africa', countries: 'BI DJ ER ET KE KM MG MU MW MZ RW SC SO SS TZ UG ZM ZW' },
+  { code: '017', zh: '中非', en: 'Middle Africa', countries: 'AO CD CF CG CM GA GQ ST TD' },
+  { code: '018', zh: '南部非洲', en: 'Southern Africa', countries: 'BW LS NA SZ ZA' },
+  { code: '011', zh: '西非', en: 'Western Africa', countries: 'BF BJ CI CV GH GM GN GW LR ML MR NE NG SL SN TG' },
+  { code: '029', zh: '加勒比', en: 'Caribbean', countries: 'BB BS CU DO HT JM PR TT' },
+  { code: '013', zh: '中美洲', en: 'Central America', countries: 'BZ CR GT HN MX NI PA SV' },
+  { code: '005', zh: '南美洲', en: 'South America', countries: 'AR BO BR CL CO EC GF GY PE PY SR UY VE' },
+  { code: '021', zh: '北美', en: 'Northern America', countries: 'CA GL US' },
+  { code: '143', zh: '中亚', en: 'Central Asia', countries: 'KG KZ TJ TM UZ' },
+  { code: '030', zh: '东亚', en: 'Eastern Asia', countries: 'CN JP KP KR MN' },
+  { code: '035', zh: '东南亚', en: 'South-eastern Asia', countries: 'BN ID KH LA MM MY PH SG TH TL VN' },
+  { code: '034', zh: '南亚', en: 'Southern Asia', countries: 'AF BD BT IN IR LK MV NP PK' },
+  { code: '145', zh: '西亚', en: 'Western Asia', countries: 'AE AM AZ BH CY GE IL IQ JO KW LB OM PS QA SA SY TR YE' },
+  { code: '151', zh: '东欧', en: 'Eastern Europe', countries: 'BG BY CZ HU MD PL RO RU SK UA' },
+  { code: '154', zh: '北欧', en: 'Northern Europe', countries: 'DK EE FI FO GB IE IS LT LV NO SE' },
+  { code: '039', zh: '南欧', en: 'Southern Europe', countries: 'AD AL BA ES GR HR IT ME MK MT PT RS SI SM VA XK' },
+  { code: '155', zh: '西欧', en: 'Western Europe', countries: 'AT BE CH DE FR LI LU MC NL' },
+  { code: '053', zh: '澳大利亚和新西兰', en: 'Australia and New Zealand', countries: 'AU NZ' },
+  { code: '054', zh: '美拉尼西亚', en: 'Melanesia', countries: 'FJ NC PG SB VU' },
+  { code: '057', zh: '密克罗尼西亚', en: 'Micronesia', countries: 'FM GU KI MH NR PW' },
+  { code: '061', zh: '波利尼西亚', en: 'Polynesia', countries: 'PF TO TV WS' },
+]
+
+const ISO_TO_SUBREGION: Record<string, SubRegionInfo> = RAW_SUBREGIONS
+  .reduce<Record<string, SubRegionInfo>>((acc, { countries, ...info }) => {
+    for (const iso of countries.split(' ')) acc[iso] = info
+    return acc
+  }, {})
+
+export function getSubRegionByISO(isoCode: string): SubRegionInfo | null {
+  if (!isoCode) return null
+  return ISO_TO_SUBREGION[isoCode.toUpperCase()] ?? null
+}
+
+/**
+ * ISO 代码转国旗 emoji（区域指示符号），代码无效时返回空字符串
+ */
+export function getCountryFlagEmoji(isoCode: string): string {
+  if (!/^[A-Za-z]{2}$/.test(isoCode || '')) return ''
+  return String.fromCodePoint(...isoCode.toUpperCase().split('').map(c => 0x1F1E6 + c.charCodeAt(0) - 65))
+}
+
+export type CountryNameLocale = 'zh' | 'en' | 'ja'
+
+const displayNamesCache = new Map<CountryNameLocale, Intl.DisplayNames | null>()
+
+function getDisplayNames(locale: CountryNameLocale): Intl.DisplayNames | null {
+  if (!displayNamesCache.has(locale)) {
+    try {
+      const displayNames = new Intl.DisplayNames([locale], { type: 'region', fallback: 'none' })
+      // 缺少该语言数据时 Intl 会静默回退到其他语言（通常是英文），视为不可用
+      const resolved = displayNames.resolvedOptions().locale
+      displayNamesCache.set(locale, resolved === locale || resolved.startsWith(`${locale}-`) ? displayNames : null)
+    } catch {
+      // 运行时不支持 Intl.DisplayNames（如 small-icu）
+      displayNamesCache.set(locale, null)
+    }
+  }
+  return displayNamesCache.get(locale)
+}
+
+/**
+ * 获取国家显示名称（Intl.DisplayNames 优先，不可用时回退到内置名称表）
+ * 内置名称表只有中文和英文：运行时没有日文数据（如 small-icu）时，ja 返回英文名
+ */
+export function getCountryDisplayName(isoCode: string, locale: CountryNameLocale = 'zh'): string | null {
+  if (!isoCode) return null
+  const iso = isoCode.toUpperCase()
+  try {
+    const name = getDisplayNames(locale)?.of(iso)
+    if (name && name !== iso) return name
+  } catch {
+    // 非法代码，使用回退名称
+  }
+  return locale === 'zh'
+    ? getPrimaryCountryNameZh(iso)
+    : getPrimaryCountryNameEn(iso)
+}
+
+export interface ContinentBreakdown {
+  continent: ContinentCode
+  zh: string
+  en: string
+  visited: number
+  total: number
+}
+
+/**
+ * 按大洲统计去过的国家数，例如 Europe 12/44
+ * 默认只包含去过的大洲；includeEmpty 时包含所有有人居住的大洲
+ */
+export function getContinentBreakdown(isoCodes: Iterable<string>, includeEmpty = false): ContinentBreakdown[] {
+  const visited = new Map<ContinentCode, Set<string>>()
+  for (const iso of isoCodes) {
+    const continent = getContinentByISO(iso)
+    if (!continent) continue
+    const set = visited.get(continent) || new Set<string>()
+    set.add(iso.toUpperCase())
+    visited.set(continent, set)
+  }
+
+  return (Object.keys(CONTINENT_NAMES) as ContinentCode[])
+    .filter(continent => visited.has(continent) || (includeEmpty && continent !== 'AN'))
+    .map(continent => ({
+      continent,
+      ...CONTINENT_NAMES[continent],
+      visited: visited.get(continent)?.size ?? 0,
+      total: getCountriesByContinent(continent).length,
+    }))
+}
+
+/**
+ * 解析国家代码与大洲代码（英文名优先，其次中文名），无法识别时均为空字符串
+ */
+export function resolveCountryCodes(country: string, countryZh?: string): { countryIso: string; continent: string } {
+  const countryIso = getCountryISOCode(country) || getCountryISOCode(countryZh || '') || ''
+  return { countryIso, continent: getContinentByISO(countryIso) || '' }
+}
+
+export function getCountriesByContinent(continent: ContinentCode): string[] {
+  return RAW_CONTINENT_COUNTRIES[continent]?.split(' ') ?? []
+}
+
+/**
+ * 解析大洲输入（支持代码、中文名、英文名）
+ */
+export function parseContinent(input: string): ContinentCode | null {
+  if (!input) return null
+  const key = normalizeCountryName(input)
+  for (const [code, names] of Object.entries(CONTINENT_NAMES)) {
+    if (key === code.toLowerCase() || key === normalizeCountryName(names.en) || key === names.zh || `${key}洲` === names.zh) {
+      return code as ContinentCode
+    }
+  }
+  return null
+}
+
+/**
+ * 解析国家输入（支持 ISO 代码与中英文国家名）
+ */
+export function parseCountryISOCode(input: string): string | null {
+  if (!input) return null
+  const trimmed = input.trim()
+  if (/^[A-Za-z]{2}$/.test(trimmed) && getContinentByISO(trimmed)) return trimmed.toUpperCase()
+  return getCountryISOCode(trimmed)
+}
@@ -0,0 +1,53 @@
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (deg: number) => deg * Math.PI / 180
+
+export function isValidCoordinate(latitude: unknown, longitude: unknown): boolean {
+  return typeof latitude === 'number'
+    && typeof longitude === 'number'
+    && Number.isFinite(latitude)
+    && Number.isFinite(longitude)
+    && latitude >= -90 && latitude <= 90
+    && longitude >= -180 && longitude <= 180
+}
+
+/**
+ * 计算两点间的大圆距离（Haversine 公式），单位：公里
+ */
+export function getGreatCircleDistanceKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+export function formatDistanceKm(km: number): string {
+  return Math.round(km).toLocaleString('en-US')
+}
+
+// pig_svgs/world-map.svg 使用 Natural Earth I 投影（2400x1400），以下参数按国界轮廓拟合
+const WORLD_MAP_CENTER_X = 1196
+const WORLD_MAP_CENTER_Y = 697
+const WORLD_MAP_SCALE = 432
+
+/**
+ * 将经纬度投影到内置世界地图 SVG 的坐标系
+ */
+export function projectToWorldMap(latitude: number, longitude: number): { x: number; y: number } {
+  const lambda = toRadians(longitude)
+  const phi = toRadians(latitude)
+  const phi2 = phi * phi
+  const phi4 = phi2 * phi2
+  const x = lambda * (0.8707 - 0.131979 * phi2 + phi4 * (-0.013791 + phi4 * (0.003971 * phi2 - 0.001529 * phi4)))
+  const y = phi * (1.007226 + phi2 * (0.015085 + phi4 * (-0.044475 + 0.028874 * phi2 - 0.005916 * phi4)))
+  return {
+    x: WORLD_MAP_CENTER_X + WORLD_MAP_SCALE * x,
+    y: WORLD_MAP_CENTER_Y - WORLD_MAP_SCALE * y,
+  }
+}
@@ -0,0 +1,94 @@
+import { Location } from '../constants'
+import { getCountryISOCode } from './countryMapping'
+import { isValidCoordinate } from './geo'
+
+export interface LocationValidationResult {
+  location: Location | null
+  errors: string[]
+}
+
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() ? Number(value) : value
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+/**
+ * 是否为 Intl 可识别的 IANA 时区
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 是否为格式正确的 http(s) 链接
+ */
+export function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return (url.protocol === 'http:' || url.protocol === 'https:') && !!url.hostname
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 校验任意输入是否符合 Location 结构
+ * 返回规范化后的地点与全部错误信息（有错误时 location 为 null）
+ */
+export function validateLocation(data: any): LocationValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { location: null, errors: ['地点必须是一个对象'] }
+  }
+
+  for (const field of ['country', 'landmark', 'timezone', 'landscapeUrl']) {
+    if (!isNonEmptyString(data[field])) errors.push(`缺少字段 ${field}`)
+  }
+  for (const field of ['countryZh', 'city', 'landmarkZh']) {
+    if (data[field] !== undefined && data[field] !== null && typeof data[field] !== 'string') {
+      errors.push(`字段 ${field} 必须是字符串`)
+    }
+  }
+
+  if (isNonEmptyString(data.country)
+    && !getCountryISOCode(data.country)
+    && !getCountryISOCode(data.countryZh || '')) {
+    errors.push(`无法识别的国家：${data.country}`)
+  }
+
+  if (isNonEmptyString(data.timezone) && !isValidTimezone(data.timezone.trim())) {
+    errors.push(`无效的 IANA 时区：${data.timezone}`)
+  }
+
+  if (isNonEmptyString(data.landscapeUrl) && !isValidHttpUrl(data.landscapeUrl.trim())) {
+    errors.push(`landscapeUrl 不是有效的 http(s) 链接：${data.landscapeUrl}`)
+  }
+
+  const latitude = toNumber(data.latitude)
+  const longitude = toNumber(data.longitude)
+  if (!isValidCoordinate(latitude, longitude)) {
+    errors.push('latitude/longitude 必须是有效的经纬度数字')
+  }
+
+  if (errors.length) return { location: null, errors }
+
+  return {
+    location: {
+      country: data.country.trim(),
+      countryZh: (data.countryZh || data.country).trim(),
+      city: (data.city || '').trim(),
+      landmark: data.landmark.trim(),
+      landmarkZh: (data.landmarkZh || data.landmark).trim(),
+      timezone: data.timezone.trim(),
+      latitude: latitude as number,
+      longitude: longitude as number,
+      landscapeUrl: data.landscapeUrl.trim(),
+    },
+    errors,
+  }
+}
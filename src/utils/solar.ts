@@ -0,0 +1,111 @@
+/**
+ * 离线太阳位置计算（NOAA Solar Calculator 公式）
+ * 精度约 1 分钟，适用于 ±72° 纬度以内；极昼/极夜时对应事件为 null
+ */
+
+export interface SolarTimes {
+  solarNoon: Date
+  sunrise: Date | null
+  sunset: Date | null
+  // 民用晨光始 / 昏影终（太阳在地平线下 6°）
+  civilDawn: Date | null
+  civilDusk: Date | null
+  // 极昼 / 极夜
+  polar?: 'day' | 'night'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// 日出日落：考虑大气折射与太阳视半径
+const SUNRISE_ZENITH = 90.833
+const CIVIL_TWILIGHT_ZENITH = 96
+
+const toRad = (deg: number) => deg * Math.PI / 180
+const toDeg = (rad: number) => rad * 180 / Math.PI
+
+/**
+ * 计算太阳赤纬（度）与时差（分钟）
+ */
+function getSolarParams(timeMs: number): { declination: number; equationOfTime: number } {
+  const julianDay = timeMs / DAY_MS + 2440587.5
+  const t = (julianDay - 2451545) / 36525
+
+  const meanLong = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t)
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t)
+  const m = toRad(meanAnomaly)
+  const center = Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * m) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * m) * 0.000289
+  const omega = toRad(125.04 - 1934.136 * t)
+  const apparentLong = toRad(meanLong + center - 0.00569 - 0.00478 * Math.sin(omega))
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60
+  const obliquity = toRad(meanObliquity + 0.00256 * Math.cos(omega))
+
+  const declination = toDeg(Math.asin(Math.sin(obliquity) * Math.sin(apparentLong)))
+
+  const y = Math.tan(obliquity / 2) ** 2
+  const l0 = toRad(meanLong)
+  const equationOfTime = 4 * toDeg(
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  )
+
+  return { declination, equationOfTime }
+}
+
+/**
+ * 时角（度），太阳始终在该天顶角之上/之下时返回 'day' / 'night'
+ */
+function getHourAngle(latitude: number, declination: number, zenith: number): number | 'day' | 'night' {
+  const lat = toRad(latitude)
+  const decl = toRad(declination)
+  const cosHourAngle = Math.cos(toRad(zenith)) / (Math.cos(lat) * Math.cos(decl)) - Math.tan(lat) * Math.tan(decl)
+  if (cosHourAngle > 1) return 'night'
+  if (cosHourAngle < -1) return 'day'
+  return toDeg(Math.acos(cosHourAngle))
+}
+
+/**
+ * 计算某一天顶角事件的时间，先以正午参数估算，再用事件时刻的参数修正一次
+ */
+function getEventTime(dayStartMs: number, latitude: number, longitude: number, zenith: number, rising: boolean): Date | null {
+  let estimate = dayStartMs + DAY_MS / 2
+  for (let i = 0; i < 2; i++) {
+    const { declination, equationOfTime } = getSolarParams(estimate)
+    const hourAngle = getHourAngle(latitude, declination, zenith)
+    if (typeof hourAngle !== 'number') return null
+    const minutes = 720 - 4 * longitude - equationOfTime + (rising ? -4 : 4) * hourAngle
+    estimate = dayStartMs + minutes * 60 * 1000
+  }
+  return new Date(estimate)
+}
+
+/**
+ * 获取经度对应的当地日期（按经度估算的平太阳时，以 UTC 零点的毫秒数表示）
+ */
+export function getSolarDayStart(longitude: number, date: Date = new Date()): number {
+  const localMs = date.getTime() + longitude / 360 * DAY_MS
+  return Math.floor(localMs / DAY_MS) * DAY_MS
+}
+
+/**
+ * 计算指定经纬度在 date 所在当地日期的日出、日落与民用晨昏蒙影时间
+ */
+export function computeSolarTimes(latitude: number, longitude: number, date: Date = new Date()): SolarTimes {
+  const dayStart = getSolarDayStart(longitude, date)
+  const noonParams = getSolarParams(dayStart + DAY_MS / 2)
+  const solarNoon = new Date(dayStart + (720 - 4 * longitude - noonParams.equationOfTime) * 60 * 1000)
+  const noonHourAngle = getHourAngle(latitude, noonParams.declination, SUNRISE_ZENITH)
+
+  return {
+    solarNoon,
+    sunrise: getEventTime(dayStart, latitude, longitude, SUNRISE_ZENITH, true),
+    sunset: getEventTime(dayStart, latitude, longitude, SUNRISE_ZENITH, false),
+    civilDawn: getEventTime(dayStart, latitude, longitude, CIVIL_TWILIGHT_ZENITH, true),
+    civilDusk: getEventTime(dayStart, latitude, longitude, CIVIL_TWILIGHT_ZENITH, false),
+    polar: typeof noonHourAngle === 'number' ? undefined : noonHourAngle,
+  }
+}
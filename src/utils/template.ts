@@ -0,0 +1,68 @@
+import { Location } from '../constants'
+
+export type TemplateValue = string | number | boolean | null | undefined
+export type TemplateVariables = Record<string, TemplateValue>
+
+// {#flag}...{/flag} 条件为真时输出，{^flag}...{/flag} 条件为假时输出
+const SECTION_PATTERN = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g
+const VARIABLE_PATTERN = /\{(\w+)\}/g
+
+function isTruthy(value: TemplateValue): boolean {
+  if (typeof value === 'string') return value.trim() !== ''
+  return !!value
+}
+
+/**
+ * 渲染模板：替换所有 {name} 占位符，支持 {#flag}...{/flag} 与 {^flag}...{/flag} 条件段
+ * 未知变量原样保留，值为空时输出空字符串
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  let result = template || ''
+
+  // 条件段可以嵌套，逐层展开直到不再变化
+  let previous: string
+  do {
+    previous = result
+    result = result.replace(SECTION_PATTERN, (_, type: string, name: string, body: string) => {
+      const matched = isTruthy(variables[name])
+      return (type === '#' ? matched : !matched) ? body : ''
+    })
+  } while (result !== previous)
+
+  return result.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) return placeholder
+    const value = variables[name]
+    if (value === null || value === undefined || typeof value === 'boolean') return ''
+    return String(value)
+  })
+}
+
+/**
+ * 从模板列表中随机选择一个非空模板
+ */
+export function pickTemplate(templates: string[], fallback: string): string {
+  const candidates = (templates ?? []).filter(template => template?.trim())
+  if (!candidates.length) return fallback
+  return candidates[Math.floor(Math.random() * candidates.length)]
+}
+
+/**
+ * 构建地点相关的模板变量
+ * {landmark} {country} 按语言取中文或英文名，另提供 *Zh / *En 的固定语言版本
+ */
+export function getLocationTemplateVariables(location: Location, language: 'zh' | 'en'): TemplateVariables {
+  const landmarkZh = location.landmarkZh || location.landmark
+  const countryZh = location.countryZh || location.country
+  return {
+    landmark: language === 'zh' ? landmarkZh : location.landmark,
+    country: language === 'zh' ? countryZh : location.country,
+    city: location.city || '',
+    landmarkZh,
+    landmarkEn: location.landmark,
+    countryZh,
+    countryEn: location.country,
+    timezone: location.timezone,
+    latitude: location.latitude,
+    longitude: location.longitude,
+  }
+}
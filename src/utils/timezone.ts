@@ -0,0 +1,104 @@
+/**
+ * 获取指定 IANA 时区当前的本地时间（小时，含分钟小数）
+ * 时区无效时返回 null
+ */
+export function getLocalHourInTimezone(timezone: string, now: Date = new Date()): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(now)
+    const hour = Number(parts.find(p => p.type === 'hour')?.value)
+    const minute = Number(parts.find(p => p.type === 'minute')?.value)
+    if (!Number.isFinite(hour) || !Number.isFinite(minute)) return null
+    return hour + minute / 60
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 将 UTC 偏移标准化到 -12 到 +14 范围
+ */
+export function normalizeUtcOffset(offset: number): number {
+  if (offset < -12) return offset + 24
+  if (offset > 14) return offset - 24
+  return offset
+}
+
+/**
+ * 获取与该 UTC 偏移本地时刻相同的所有偏移（-12 到 +14 范围内），如 -10 与 +14
+ */
+export function getEquivalentUtcOffsets(offset: number): number[] {
+  const normalized = normalizeUtcOffset(offset)
+  return [normalized, normalized - 24, normalized + 24].filter(value => value >= -12 && value <= 14)
+}
+
+/**
+ * 获取指定 IANA 时区当前的 UTC 偏移（小时），时区无效时返回 null
+ * 直接读取时区的实际偏移，不随当前 UTC 时间折算
+ */
+export function getUtcOffsetHours(timezone: string, now: Date = new Date()): number | null {
+  try {
+    const name = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      timeZoneName: 'longOffset',
+    }).formatToParts(now).find(p => p.type === 'timeZoneName')?.value
+    if (!name) return null
+    // 形如 GMT+05:30 / GMT-10:00，UTC 本身为 GMT
+    if (name === 'GMT' || name === 'UTC') return 0
+    const match = name.match(/^(?:GMT|UTC)([+-])(\d{1,2})(?::?(\d{2}))?$/)
+    if (!match) return null
+    const hours = Number(match[2]) + Number(match[3] ?? 0) / 60
+    return match[1] === '-' ? -hours : hours
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 格式化指定 IANA 时区的本地时间（HH:mm），时区无效时返回空字符串
+ */
+export function formatLocalTime(timezone: string, now: Date = new Date()): string {
+  try {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now)
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 获取指定时区的本地小时（0-23），时区为空或无效时使用服务器本地时间
+ */
+export function getLocalHour(timezone: string, now: Date = new Date()): number {
+  const localHour = timezone ? getLocalHourInTimezone(timezone, now) : null
+  return localHour === null ? now.getHours() : Math.floor(localHour)
+}
+
+/**
+ * 获取指定时区的本地日期（YYYY-MM-DD），时区为空或无效时使用服务器本地日期
+ */
+export function getLocalDateKey(timezone: string, date: Date = new Date()): string {
+  if (timezone) {
+    try {
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(date)
+    } catch {
+      // 时区无效，回退到服务器本地日期
+    }
+  }
+  const mm = String(date.getMonth() + 1).padStart(2, '0')
+  const dd = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${mm}-${dd}`
+}